@@ -0,0 +1,88 @@
+-- CreateTable
+CREATE TABLE "Profile" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "avatarUrl" TEXT,
+    "isKids" BOOLEAN NOT NULL DEFAULT false,
+    "language" TEXT NOT NULL DEFAULT 'en',
+    "maturityLimit" TEXT NOT NULL DEFAULT '18+',
+    "isDefault" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Profile_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Profile_userId_idx" ON "Profile"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Profile_userId_name_key" ON "Profile"("userId", "name");
+
+-- AddForeignKey
+ALTER TABLE "Profile" ADD CONSTRAINT "Profile_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Give every existing user a default profile that inherits their data
+INSERT INTO "Profile" ("id", "userId", "name", "isDefault", "updatedAt")
+SELECT gen_random_uuid()::text, "id", COALESCE("username", 'Main'), true, CURRENT_TIMESTAMP
+FROM "User";
+
+-- AlterTable
+ALTER TABLE "Watchlist" ADD COLUMN "profileId" TEXT;
+ALTER TABLE "WatchHistory" ADD COLUMN "profileId" TEXT;
+ALTER TABLE "Favorite" ADD COLUMN "profileId" TEXT;
+ALTER TABLE "ShowProgress" ADD COLUMN "profileId" TEXT;
+
+-- Backfill
+UPDATE "Watchlist" AS t SET "profileId" = p."id" FROM "Profile" AS p WHERE p."userId" = t."userId" AND p."isDefault";
+UPDATE "WatchHistory" AS t SET "profileId" = p."id" FROM "Profile" AS p WHERE p."userId" = t."userId" AND p."isDefault";
+UPDATE "Favorite" AS t SET "profileId" = p."id" FROM "Profile" AS p WHERE p."userId" = t."userId" AND p."isDefault";
+UPDATE "ShowProgress" AS t SET "profileId" = p."id" FROM "Profile" AS p WHERE p."userId" = t."userId" AND p."isDefault";
+
+ALTER TABLE "Watchlist" ALTER COLUMN "profileId" SET NOT NULL;
+ALTER TABLE "WatchHistory" ALTER COLUMN "profileId" SET NOT NULL;
+ALTER TABLE "Favorite" ALTER COLUMN "profileId" SET NOT NULL;
+ALTER TABLE "ShowProgress" ALTER COLUMN "profileId" SET NOT NULL;
+
+-- DropIndex
+DROP INDEX "Watchlist_userId_tmdbId_contentType_key";
+
+-- DropIndex
+DROP INDEX "WatchHistory_userId_watchedAt_idx";
+
+-- DropIndex
+DROP INDEX "Favorite_userId_tmdbId_contentType_key";
+
+-- DropIndex
+DROP INDEX "ShowProgress_userId_tmdbShowId_idx";
+
+-- DropIndex
+DROP INDEX "ShowProgress_userId_tmdbShowId_seasonNumber_episodeNumber_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Watchlist_profileId_tmdbId_contentType_key" ON "Watchlist"("profileId", "tmdbId", "contentType");
+
+-- CreateIndex
+CREATE INDEX "WatchHistory_profileId_watchedAt_idx" ON "WatchHistory"("profileId", "watchedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Favorite_profileId_tmdbId_contentType_key" ON "Favorite"("profileId", "tmdbId", "contentType");
+
+-- CreateIndex
+CREATE INDEX "ShowProgress_profileId_tmdbShowId_idx" ON "ShowProgress"("profileId", "tmdbShowId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ShowProgress_profileId_tmdbShowId_seasonNumber_episodeNumber_key" ON "ShowProgress"("profileId", "tmdbShowId", "seasonNumber", "episodeNumber");
+
+-- AddForeignKey
+ALTER TABLE "Watchlist" ADD CONSTRAINT "Watchlist_profileId_fkey" FOREIGN KEY ("profileId") REFERENCES "Profile"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WatchHistory" ADD CONSTRAINT "WatchHistory_profileId_fkey" FOREIGN KEY ("profileId") REFERENCES "Profile"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Favorite" ADD CONSTRAINT "Favorite_profileId_fkey" FOREIGN KEY ("profileId") REFERENCES "Profile"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ShowProgress" ADD CONSTRAINT "ShowProgress_profileId_fkey" FOREIGN KEY ("profileId") REFERENCES "Profile"("id") ON DELETE CASCADE ON UPDATE CASCADE;
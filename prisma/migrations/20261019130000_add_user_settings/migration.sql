@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "UserSettings" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "language" TEXT NOT NULL DEFAULT 'en',
+    "region" TEXT,
+    "autoplayNextEpisode" BOOLEAN NOT NULL DEFAULT true,
+    "autoplayPreviews" BOOLEAN NOT NULL DEFAULT true,
+    "defaultContentType" TEXT NOT NULL DEFAULT 'all',
+    "imageQuality" TEXT NOT NULL DEFAULT 'auto',
+    "hiddenGenreIds" INTEGER[] DEFAULT ARRAY[]::INTEGER[],
+    "notifyNewEpisodes" BOOLEAN NOT NULL DEFAULT false,
+    "notifyRecommendations" BOOLEAN NOT NULL DEFAULT false,
+    "notifyProductUpdates" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "UserSettings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "UserSettings_userId_key" ON "UserSettings"("userId");
+
+-- AddForeignKey
+ALTER TABLE "UserSettings" ADD CONSTRAINT "UserSettings_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
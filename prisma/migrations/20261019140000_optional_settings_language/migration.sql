@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "UserSettings" ALTER COLUMN "language" DROP NOT NULL,
+ALTER COLUMN "language" DROP DEFAULT;
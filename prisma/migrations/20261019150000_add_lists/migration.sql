@@ -0,0 +1,49 @@
+-- CreateTable
+CREATE TABLE "List" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "profileId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "coverImageUrl" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "List_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ListItem" (
+    "id" TEXT NOT NULL,
+    "listId" TEXT NOT NULL,
+    "tmdbId" INTEGER NOT NULL,
+    "contentType" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "posterPath" TEXT,
+    "note" TEXT,
+    "position" INTEGER NOT NULL,
+    "addedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ListItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "List_userId_idx" ON "List"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "List_profileId_name_key" ON "List"("profileId", "name");
+
+-- CreateIndex
+CREATE INDEX "ListItem_listId_position_idx" ON "ListItem"("listId", "position");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ListItem_listId_tmdbId_contentType_key" ON "ListItem"("listId", "tmdbId", "contentType");
+
+-- AddForeignKey
+ALTER TABLE "List" ADD CONSTRAINT "List_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "List" ADD CONSTRAINT "List_profileId_fkey" FOREIGN KEY ("profileId") REFERENCES "Profile"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ListItem" ADD CONSTRAINT "ListItem_listId_fkey" FOREIGN KEY ("listId") REFERENCES "List"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,52 @@
+-- AlterTable
+ALTER TABLE "Profile" ADD COLUMN     "watchlistShareSlug" TEXT,
+ADD COLUMN     "watchlistVisibility" TEXT NOT NULL DEFAULT 'private';
+
+-- AlterTable
+ALTER TABLE "List" ADD COLUMN     "shareSlug" TEXT,
+ADD COLUMN     "visibility" TEXT NOT NULL DEFAULT 'private';
+
+-- CreateTable
+CREATE TABLE "SharedSave" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "profileId" TEXT NOT NULL,
+    "listId" TEXT,
+    "watchlistProfileId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SharedSave_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Profile_watchlistShareSlug_key" ON "Profile"("watchlistShareSlug");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "List_shareSlug_key" ON "List"("shareSlug");
+
+-- CreateIndex
+CREATE INDEX "SharedSave_listId_idx" ON "SharedSave"("listId");
+
+-- CreateIndex
+CREATE INDEX "SharedSave_watchlistProfileId_idx" ON "SharedSave"("watchlistProfileId");
+
+-- CreateIndex
+CREATE INDEX "SharedSave_userId_idx" ON "SharedSave"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SharedSave_profileId_listId_key" ON "SharedSave"("profileId", "listId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SharedSave_profileId_watchlistProfileId_key" ON "SharedSave"("profileId", "watchlistProfileId");
+
+-- AddForeignKey
+ALTER TABLE "SharedSave" ADD CONSTRAINT "SharedSave_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SharedSave" ADD CONSTRAINT "SharedSave_profileId_fkey" FOREIGN KEY ("profileId") REFERENCES "Profile"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SharedSave" ADD CONSTRAINT "SharedSave_listId_fkey" FOREIGN KEY ("listId") REFERENCES "List"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SharedSave" ADD CONSTRAINT "SharedSave_watchlistProfileId_fkey" FOREIGN KEY ("watchlistProfileId") REFERENCES "Profile"("id") ON DELETE CASCADE ON UPDATE CASCADE;
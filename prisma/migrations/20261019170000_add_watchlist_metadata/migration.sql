@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Watchlist" ADD COLUMN     "genreIds" INTEGER[] DEFAULT ARRAY[]::INTEGER[],
+ADD COLUMN     "metadataSyncedAt" TIMESTAMP(3),
+ADD COLUMN     "releaseDate" TIMESTAMP(3),
+ADD COLUMN     "voteAverage" DOUBLE PRECISION;
+
+-- CreateIndex
+CREATE INDEX "Watchlist_profileId_addedAt_idx" ON "Watchlist"("profileId", "addedAt");
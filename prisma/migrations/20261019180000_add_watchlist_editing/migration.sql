@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "Watchlist" ADD COLUMN     "position" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "tags" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "watchBy" TIMESTAMP(3);
+
+-- Number existing items in the order they were added, oldest first
+UPDATE "Watchlist" AS w
+SET "position" = ordered."rowNumber" - 1
+FROM (
+    SELECT "id", ROW_NUMBER() OVER (PARTITION BY "profileId" ORDER BY "addedAt", "id") AS "rowNumber"
+    FROM "Watchlist"
+) AS ordered
+WHERE w."id" = ordered."id";
+
+-- CreateIndex
+CREATE INDEX "Watchlist_profileId_position_idx" ON "Watchlist"("profileId", "position");
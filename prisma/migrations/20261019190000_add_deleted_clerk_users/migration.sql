@@ -0,0 +1,7 @@
+-- CreateTable
+CREATE TABLE "DeletedClerkUser" (
+    "clerkId" TEXT NOT NULL,
+    "deletedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DeletedClerkUser_pkey" PRIMARY KEY ("clerkId")
+);
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Watchlist" ADD COLUMN     "metadataAttemptedAt" TIMESTAMP(3);
@@ -11,6 +11,8 @@ import { pinoHttp } from "pino-http";
 import { errorHandler, notFoundHandler } from "./middleware/error.middleware.js";
 import { generalLimiter } from "./middleware/rateLimit.middleware.js";
 import appRoutes from "./routes/index.js";
+import importRoutes from "./routes/import.routes.js";
+import webhookRoutes from "./routes/webhook.routes.js";
 import { env } from "./config/env.js";
 
 const app: Express = express();
@@ -19,6 +21,12 @@ const app: Express = express();
 // Request logger
 app.use(pinoHttp());
 
+// Webhooks verify signatures against the raw body, so they have to be
+// mounted before the JSON parser below gets to it. They also go before the
+// rate limiter: deliveries come from a handful of sender IPs and are
+// retried on failure, so limiting them would only delay account updates.
+app.use("/api/webhooks", webhookRoutes);
+
 // Rate limiting - prevents API abuse
 app.use(generalLimiter);
 
@@ -44,6 +52,10 @@ app.use(
 	}),
 );
 
+// Imports take a whole export file as the body, which can be larger than
+// the JSON parser allows, so they read it themselves too
+app.use("/api/imports", importRoutes);
+
 // Parse JSON bodies - this lets us read JSON data from request bodies
 // Without this, req.body would be undefined
 app.use(express.json());
@@ -73,7 +85,17 @@ app.get("/", (_req: Request, res: Response) => {
 			user: "/api/user",
 			movies: "/api/movies",
 			tv: "/api/tv",
+			people: "/api/people",
+			search: "/api/search",
 			watchlist: "/api/watchlist",
+			lists: "/api/lists",
+			shared: "/api/shared",
+			history: "/api/history",
+			progress: "/api/progress",
+			status: "/api/status",
+			imports: "/api/imports",
+			home: "/api/home",
+			webhooks: "/api/webhooks",
 		},
 	});
 });
@@ -20,7 +20,19 @@ const envSchema = z.object({
 	// CLERK
 	CLERK_PUBLISHABLE_KEY: z.string(),
 	CLERK_SECRET_KEY: z.string(),
-	CLERK_JWKS_URL: z.url()
+	CLERK_JWKS_URL: z.url(),
+	// Signing secret of the Clerk webhook endpoint ("whsec_...").
+	// Webhooks are rejected with 503 until it's set.
+	CLERK_WEBHOOK_SECRET: z.string().startsWith("whsec_").optional(),
+
+	// HOME ROWS
+	CONTINUE_WATCHING_MAX_AGE_DAYS: z.coerce.number().int().positive().default(30),
+
+	// ACCOUNT DELETION
+	// Days a deleted account can still be restored before it's purged
+	ACCOUNT_DELETION_GRACE_DAYS: z.coerce.number().int().positive().default(30),
+	// How often the purge job looks for accounts that are due
+	ACCOUNT_PURGE_INTERVAL_MINUTES: z.coerce.number().int().positive().default(60),
 });
 
 const _env = envSchema.safeParse(process.env);
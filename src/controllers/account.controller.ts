@@ -0,0 +1,173 @@
+import type { Request, Response } from "express";
+import { StatusCodes } from "http-status-codes";
+import { env } from "../config/env.js";
+import {
+	getAccountAuditLog,
+	isPendingDeletion,
+	requestAccountDeletion,
+	restoreAccount,
+} from "../services/account.service.js";
+import { findOrCreateUser } from "../services/user.service.js";
+import logger from "../utils/logger.js";
+
+/**
+ * Account Controllers
+ *
+ * Deleting and restoring the whole account. Deletion is soft at first:
+ * everything is hidden immediately, and purged for good once the grace
+ * period (ACCOUNT_DELETION_GRACE_DAYS) is over.
+ */
+
+/**
+ * Get Account Deletion Status
+ * Example: GET /api/user/account/deletion
+ *
+ * Returns whether the account is pending deletion, when it will be purged,
+ * and the audit log of deletion requests and restores.
+ */
+export const getAccountDeletion = async (
+	req: Request,
+	res: Response,
+): Promise<void> => {
+	try {
+		const clerkUserId = req.auth?.userId;
+
+		if (!clerkUserId) {
+			res.status(StatusCodes.UNAUTHORIZED).json({
+				success: false,
+				error: "Unauthorized",
+			});
+			return;
+		}
+
+		const user = await findOrCreateUser(clerkUserId);
+		const auditLog = await getAccountAuditLog(user.id);
+
+		res.json({
+			success: true,
+			data: {
+				pendingDeletion: isPendingDeletion(user),
+				deletedAt: user.deletedAt,
+				purgeAfter: user.purgeAfter,
+				auditLog: auditLog.map(({ action, details, createdAt }) => ({
+					action,
+					details,
+					createdAt,
+				})),
+			},
+		});
+	} catch (error) {
+		logger.error(error, "Error in getAccountDeletion:");
+		res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+			success: false,
+			error: "Failed to fetch account deletion status",
+		});
+	}
+};
+
+/**
+ * Delete the Account
+ * Example: DELETE /api/user/account
+ *
+ * Hides the account's data straight away and schedules it to be purged.
+ * It can be restored with POST /api/user/account/restore until then.
+ */
+export const deleteAccount = async (
+	req: Request,
+	res: Response,
+): Promise<void> => {
+	try {
+		const clerkUserId = req.auth?.userId;
+
+		if (!clerkUserId) {
+			res.status(StatusCodes.UNAUTHORIZED).json({
+				success: false,
+				error: "Unauthorized",
+			});
+			return;
+		}
+
+		const user = await findOrCreateUser(clerkUserId);
+
+		if (isPendingDeletion(user)) {
+			res.status(StatusCodes.CONFLICT).json({
+				success: false,
+				error: "This account is already scheduled for deletion",
+				data: { purgeAfter: user.purgeAfter },
+			});
+			return;
+		}
+
+		const deleted = await requestAccountDeletion(user);
+
+		res.status(StatusCodes.ACCEPTED).json({
+			success: true,
+			message: `Account scheduled for deletion. It can be restored for ${env.ACCOUNT_DELETION_GRACE_DAYS} days.`,
+			data: {
+				deletedAt: deleted.deletedAt,
+				purgeAfter: deleted.purgeAfter,
+			},
+		});
+	} catch (error) {
+		logger.error(error, "Error in deleteAccount:");
+		res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+			success: false,
+			error: "Failed to delete account",
+		});
+	}
+};
+
+/**
+ * Restore a Deleted Account
+ * Example: POST /api/user/account/restore
+ *
+ * Cancels a pending deletion. Only possible before the purge date.
+ */
+export const restoreDeletedAccount = async (
+	req: Request,
+	res: Response,
+): Promise<void> => {
+	try {
+		const clerkUserId = req.auth?.userId;
+
+		if (!clerkUserId) {
+			res.status(StatusCodes.UNAUTHORIZED).json({
+				success: false,
+				error: "Unauthorized",
+			});
+			return;
+		}
+
+		const user = await findOrCreateUser(clerkUserId);
+
+		if (!isPendingDeletion(user)) {
+			res.status(StatusCodes.CONFLICT).json({
+				success: false,
+				error: "This account is not scheduled for deletion",
+			});
+			return;
+		}
+
+		// The purge job may not have got to it yet, but it's too late to restore
+		if (user.purgeAfter && user.purgeAfter <= new Date()) {
+			res.status(StatusCodes.GONE).json({
+				success: false,
+				error: "The grace period for restoring this account is over",
+			});
+			return;
+		}
+
+		await restoreAccount(user);
+
+		res.json({
+			success: true,
+			message: "Account restored successfully",
+		});
+	} catch (error) {
+		logger.error(error, "Error in restoreDeletedAccount:");
+		res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+			success: false,
+			error: "Failed to restore account",
+		});
+	}
+};
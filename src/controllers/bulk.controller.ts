@@ -0,0 +1,175 @@
+import type { Request, Response } from "express";
+import { StatusCodes } from "http-status-codes";
+import { getActiveProfile } from "../middleware/profile.middleware.js";
+import {
+	bulkAddFavoritesSchema,
+	bulkAddWatchlistSchema,
+	bulkIdsSchema,
+} from "../schemas/bulk.schema.js";
+import { formatZodIssues } from "../schemas/common.schema.js";
+import {
+	type BulkCollection,
+	bulkAdd,
+	bulkMove,
+	bulkRemove,
+} from "../services/bulk.service.js";
+import logger from "../utils/logger.js";
+
+/**
+ * Bulk Watchlist and Favorites Controllers
+ *
+ * The same handlers serve the watchlist and favorites, so each one is made
+ * for a collection:
+ * router.post('/bulk/add', requireAuth, resolveProfile, bulkAddItems('watchlist'))
+ *
+ * A batch either succeeds as a whole (200, with a result per item) or
+ * fails as a whole; items that are duplicates, missing or belong to another
+ * profile don't fail the batch.
+ */
+
+/**
+ * Bulk Add
+ * Example: POST /api/watchlist/bulk/add
+ *
+ * Body: { items: [{ tmdbId, contentType, title, posterPath?, note? }, ...] }
+ * note is only accepted for the watchlist.
+ */
+export const bulkAddItems =
+	(collection: BulkCollection) =>
+	async (req: Request, res: Response): Promise<void> => {
+		try {
+			const clerkUserId = req.auth?.userId;
+
+			if (!clerkUserId) {
+				res.status(StatusCodes.UNAUTHORIZED).json({
+					success: false,
+					error: "Unauthorized",
+				});
+				return;
+			}
+
+			const body = (
+				collection === "watchlist"
+					? bulkAddWatchlistSchema
+					: bulkAddFavoritesSchema
+			).safeParse(req.body);
+
+			if (!body.success) {
+				res.status(StatusCodes.BAD_REQUEST).json({
+					success: false,
+					error: "Invalid items",
+					details: formatZodIssues(body.error),
+				});
+				return;
+			}
+
+			const profile = getActiveProfile(req);
+			const result = await bulkAdd(collection, profile, body.data.items);
+
+			res.json({
+				success: true,
+				data: result,
+			});
+		} catch (error) {
+			logger.error(error, "Error in bulkAddItems:");
+			res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+				success: false,
+				error: `Failed to add to ${collection}`,
+			});
+		}
+	};
+
+/**
+ * Bulk Remove
+ * Example: POST /api/watchlist/bulk/remove
+ *
+ * Body: { ids: [...] }
+ */
+export const bulkRemoveItems =
+	(collection: BulkCollection) =>
+	async (req: Request, res: Response): Promise<void> => {
+		try {
+			const clerkUserId = req.auth?.userId;
+
+			if (!clerkUserId) {
+				res.status(StatusCodes.UNAUTHORIZED).json({
+					success: false,
+					error: "Unauthorized",
+				});
+				return;
+			}
+
+			const body = bulkIdsSchema.safeParse(req.body);
+
+			if (!body.success) {
+				res.status(StatusCodes.BAD_REQUEST).json({
+					success: false,
+					error: "Invalid item IDs",
+					details: formatZodIssues(body.error),
+				});
+				return;
+			}
+
+			const profile = getActiveProfile(req);
+			const result = await bulkRemove(collection, profile, body.data.ids);
+
+			res.json({
+				success: true,
+				data: result,
+			});
+		} catch (error) {
+			logger.error(error, "Error in bulkRemoveItems:");
+			res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+				success: false,
+				error: `Failed to remove from ${collection}`,
+			});
+		}
+	};
+
+/**
+ * Bulk Move
+ * Example: POST /api/watchlist/bulk/move
+ *
+ * Body: { ids: [...] }
+ * Moves watchlist items to favorites, or favorites to the watchlist.
+ */
+export const bulkMoveItems =
+	(collection: BulkCollection) =>
+	async (req: Request, res: Response): Promise<void> => {
+		try {
+			const clerkUserId = req.auth?.userId;
+
+			if (!clerkUserId) {
+				res.status(StatusCodes.UNAUTHORIZED).json({
+					success: false,
+					error: "Unauthorized",
+				});
+				return;
+			}
+
+			const body = bulkIdsSchema.safeParse(req.body);
+
+			if (!body.success) {
+				res.status(StatusCodes.BAD_REQUEST).json({
+					success: false,
+					error: "Invalid item IDs",
+					details: formatZodIssues(body.error),
+				});
+				return;
+			}
+
+			const profile = getActiveProfile(req);
+			const result = await bulkMove(collection, profile, body.data.ids);
+
+			res.json({
+				success: true,
+				data: result,
+			});
+		} catch (error) {
+			logger.error(error, "Error in bulkMoveItems:");
+			res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+				success: false,
+				error: `Failed to move ${collection} items`,
+			});
+		}
+	};
@@ -0,0 +1,288 @@
+import type { Request, Response } from "express";
+import { StatusCodes } from "http-status-codes";
+import prisma from "../config/prisma.js";
+import { formatZodIssues } from "../schemas/common.schema.js";
+import { downloadExportQuerySchema } from "../schemas/export.schema.js";
+import {
+	type ExportArchive,
+	exportCollectionToCsv,
+	exportSummarySelect,
+	findActiveExport,
+	requestExport,
+} from "../services/export.service.js";
+import { findOrCreateUser } from "../services/user.service.js";
+import logger from "../utils/logger.js";
+
+/**
+ * Data Export Controllers
+ *
+ * Let users download a copy of everything we store about them.
+ * Exports cover the whole account, not just the active profile.
+ */
+
+const downloadUrl = (exportId: string) =>
+	`/api/user/exports/${exportId}/download`;
+
+/**
+ * Request a Data Export
+ * Example: POST /api/user/exports
+ *
+ * Small accounts get a completed export straight away (201).
+ * Larger ones get a pending export (202) to poll with GET /api/user/exports/:id.
+ */
+export const createDataExport = async (
+	req: Request,
+	res: Response,
+): Promise<void> => {
+	try {
+		const clerkUserId = req.auth?.userId;
+
+		if (!clerkUserId) {
+			res.status(StatusCodes.UNAUTHORIZED).json({
+				success: false,
+				error: "Unauthorized",
+			});
+			return;
+		}
+
+		const user = await findOrCreateUser(clerkUserId);
+		const active = await findActiveExport(user.id);
+
+		if (active) {
+			res.status(StatusCodes.CONFLICT).json({
+				success: false,
+				error: "An export is already being generated",
+				data: active,
+			});
+			return;
+		}
+
+		const { dataExport, inBackground } = await requestExport(user.id);
+
+		res.status(inBackground ? StatusCodes.ACCEPTED : StatusCodes.CREATED).json({
+			success: true,
+			message: inBackground
+				? "Export started. Check its status to know when it's ready."
+				: "Export created successfully",
+			data: {
+				...dataExport,
+				...(dataExport.status === "completed" && {
+					downloadUrl: downloadUrl(dataExport.id),
+				}),
+			},
+		});
+	} catch (error) {
+		logger.error(error, "Error in createDataExport:");
+		res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+			success: false,
+			error: "Failed to create export",
+		});
+	}
+};
+
+/**
+ * List Data Exports
+ * Example: GET /api/user/exports
+ */
+export const listDataExports = async (
+	req: Request,
+	res: Response,
+): Promise<void> => {
+	try {
+		const clerkUserId = req.auth?.userId;
+
+		if (!clerkUserId) {
+			res.status(StatusCodes.UNAUTHORIZED).json({
+				success: false,
+				error: "Unauthorized",
+			});
+			return;
+		}
+
+		const user = await findOrCreateUser(clerkUserId);
+
+		const exports = await prisma.dataExport.findMany({
+			where: { userId: user.id },
+			select: exportSummarySelect,
+			orderBy: { createdAt: "desc" },
+		});
+
+		res.json({
+			success: true,
+			data: exports,
+		});
+	} catch (error) {
+		logger.error(error, "Error in listDataExports:");
+		res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+			success: false,
+			error: "Failed to fetch exports",
+		});
+	}
+};
+
+/**
+ * Get a Data Export's Status
+ * Example: GET /api/user/exports/:id
+ */
+export const getDataExport = async (
+	req: Request,
+	res: Response,
+): Promise<void> => {
+	try {
+		const clerkUserId = req.auth?.userId;
+
+		if (!clerkUserId) {
+			res.status(StatusCodes.UNAUTHORIZED).json({
+				success: false,
+				error: "Unauthorized",
+			});
+			return;
+		}
+
+		const user = await findOrCreateUser(clerkUserId);
+
+		const dataExport = await prisma.dataExport.findUnique({
+			// biome-ignore lint/style/noNonNullAssertion: It must exist when this route is used
+			where: { id: req.params.id! },
+			select: { ...exportSummarySelect, userId: true },
+		});
+
+		if (!dataExport) {
+			res.status(StatusCodes.NOT_FOUND).json({
+				success: false,
+				error: "Export not found",
+			});
+			return;
+		}
+
+		if (dataExport.userId !== user.id) {
+			res.status(StatusCodes.FORBIDDEN).json({
+				success: false,
+				error: "You do not have permission to view this export",
+			});
+			return;
+		}
+
+		const { userId: _userId, ...summary } = dataExport;
+
+		res.json({
+			success: true,
+			data: {
+				...summary,
+				...(summary.status === "completed" && {
+					downloadUrl: downloadUrl(summary.id),
+				}),
+			},
+		});
+	} catch (error) {
+		logger.error(error, "Error in getDataExport:");
+		res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+			success: false,
+			error: "Failed to fetch export",
+		});
+	}
+};
+
+/**
+ * Download a Data Export
+ * Example: GET /api/user/exports/:id/download
+ * Example: GET /api/user/exports/:id/download?format=csv&collection=watchlist
+ *
+ * Query params:
+ * - format: "json" (default, the whole archive) or "csv" (one collection)
+ * - collection: profiles, watchlist, favorites, watchHistory, showProgress,
+ *   lists, listItems or sharedSaves
+ *   (required for CSV, optional for JSON)
+ */
+export const downloadDataExport = async (
+	req: Request,
+	res: Response,
+): Promise<void> => {
+	try {
+		const clerkUserId = req.auth?.userId;
+
+		if (!clerkUserId) {
+			res.status(StatusCodes.UNAUTHORIZED).json({
+				success: false,
+				error: "Unauthorized",
+			});
+			return;
+		}
+
+		const query = downloadExportQuerySchema.safeParse(req.query);
+
+		if (!query.success) {
+			res.status(StatusCodes.BAD_REQUEST).json({
+				success: false,
+				error: "Invalid download options",
+				details: formatZodIssues(query.error),
+			});
+			return;
+		}
+
+		const user = await findOrCreateUser(clerkUserId);
+
+		const dataExport = await prisma.dataExport.findUnique({
+			// biome-ignore lint/style/noNonNullAssertion: It must exist when this route is used
+			where: { id: req.params.id! },
+		});
+
+		if (!dataExport) {
+			res.status(StatusCodes.NOT_FOUND).json({
+				success: false,
+				error: "Export not found",
+			});
+			return;
+		}
+
+		if (dataExport.userId !== user.id) {
+			res.status(StatusCodes.FORBIDDEN).json({
+				success: false,
+				error: "You do not have permission to download this export",
+			});
+			return;
+		}
+
+		if (dataExport.status !== "completed" || !dataExport.archive) {
+			res.status(StatusCodes.CONFLICT).json({
+				success: false,
+				error:
+					dataExport.status === "failed"
+						? "This export failed. Please request a new one."
+						: "This export is not ready yet",
+				data: { status: dataExport.status },
+			});
+			return;
+		}
+
+		if (dataExport.expiresAt && dataExport.expiresAt < new Date()) {
+			res.status(StatusCodes.GONE).json({
+				success: false,
+				error: "This export has expired. Please request a new one.",
+			});
+			return;
+		}
+
+		const archive = dataExport.archive as unknown as ExportArchive;
+		const { format, collection } = query.data;
+		const date = archive.exportedAt.slice(0, 10);
+
+		if (format === "csv" && collection) {
+			res.attachment(`account-export-${date}-${collection}.csv`);
+			res.type("text/csv");
+			res.send(exportCollectionToCsv(archive, collection));
+			return;
+		}
+
+		res.attachment(
+			`account-export-${date}${collection ? `-${collection}` : ""}.json`,
+		);
+		res.json(collection ? archive[collection] : archive);
+	} catch (error) {
+		logger.error(error, "Error in downloadDataExport:");
+		res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+			success: false,
+			error: "Failed to download export",
+		});
+	}
+};
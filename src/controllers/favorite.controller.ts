@@ -1,7 +1,7 @@
 import type { Request, Response } from "express";
 import { StatusCodes } from "http-status-codes";
 import prisma from "../config/prisma.js";
-import { findOrCreateUser } from "../services/user.service.js";
+import { getActiveProfile } from "../middleware/profile.middleware.js";
 import logger from "../utils/logger.js";
 
 /**
@@ -26,11 +26,11 @@ export const getFavorites = async (
 			return;
 		}
 
-		const user = await findOrCreateUser(clerkUserId);
+		const profile = getActiveProfile(req);
 
 		const favorites = await prisma.favorite.findMany({
 			where: {
-				userId: user.id,
+				profileId: profile.id,
 			},
 			orderBy: {
 				addedAt: "desc",
@@ -83,12 +83,12 @@ export const addToFavorites = async (
 			return;
 		}
 
-		const user = await findOrCreateUser(clerkUserId);
+		const profile = getActiveProfile(req);
 
 		const existing = await prisma.favorite.findUnique({
 			where: {
-				userId_tmdbId_contentType: {
-					userId: user.id,
+				profileId_tmdbId_contentType: {
+					profileId: profile.id,
 					tmdbId: parseInt(tmdbId, 10),
 					contentType,
 				},
@@ -106,7 +106,8 @@ export const addToFavorites = async (
 
 		const favoriteItem = await prisma.favorite.create({
 			data: {
-				userId: user.id,
+				userId: profile.userId,
+				profileId: profile.id,
 				tmdbId: parseInt(tmdbId, 10),
 				contentType,
 				title,
@@ -146,7 +147,7 @@ export const removeFromFavorites = async (
 		// biome-ignore lint/style/noNonNullAssertion: It must exist when this route is used
 		const favoriteId = req.params.id!;
 
-		const user = await findOrCreateUser(clerkUserId);
+		const profile = getActiveProfile(req);
 
 		const item = await prisma.favorite.findUnique({
 			where: {
@@ -162,7 +163,7 @@ export const removeFromFavorites = async (
 			return;
 		}
 
-		if (item.userId !== user.id) {
+		if (item.profileId !== profile.id) {
 			res.status(StatusCodes.FORBIDDEN).json({
 				success: false,
 				error: "You do not have permission to remove this item",
@@ -214,12 +215,12 @@ export const checkFavoriteStatus = async (
 			return;
 		}
 
-		const user = await findOrCreateUser(clerkUserId);
+		const profile = getActiveProfile(req);
 
 		const item = await prisma.favorite.findUnique({
 			where: {
-				userId_tmdbId_contentType: {
-					userId: user.id,
+				profileId_tmdbId_contentType: {
+					profileId: profile.id,
 					tmdbId: parseInt(tmdbId as string, 10),
 					contentType: contentType as string,
 				},
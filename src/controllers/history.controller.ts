@@ -0,0 +1,396 @@
+import type { Request, Response } from "express";
+import { StatusCodes } from "http-status-codes";
+import prisma from "../config/prisma.js";
+import type { Prisma } from "../generated/prisma/client.js";
+import { getActiveProfile } from "../middleware/profile.middleware.js";
+import { formatZodIssues } from "../schemas/common.schema.js";
+import { historyQuerySchema } from "../schemas/history.schema.js";
+import logger from "../utils/logger.js";
+
+/**
+ * Watch History Controllers
+ *
+ * Watch history is the user's viewing diary. Every time the player reports
+ * progress we either record a new entry or update an existing one, which
+ * later powers features like "Continue Watching".
+ *
+ * All these endpoints require authentication because history is personal.
+ */
+
+/**
+ * Parse an optional non-negative integer from the request body.
+ * Returns undefined when the value is missing and NaN when it is invalid.
+ */
+const parseOptionalInt = (value: unknown): number | undefined => {
+	if (value === undefined || value === null || value === "") {
+		return undefined;
+	}
+
+	const parsed = parseInt(String(value), 10);
+	return Number.isNaN(parsed) || parsed < 0 ? Number.NaN : parsed;
+};
+
+/**
+ * Get User's Watch History
+ * Example: GET /api/history?limit=20&cursor=abc&contentType=tv&from=2025-01-01&to=2025-02-01
+ *
+ * Results are ordered by watchedAt (newest first). Pass the returned
+ * nextCursor back as `cursor` to fetch the next page.
+ */
+export const getWatchHistory = async (
+	req: Request,
+	res: Response,
+): Promise<void> => {
+	try {
+		const clerkUserId = req.auth?.userId;
+
+		if (!clerkUserId) {
+			res.status(StatusCodes.UNAUTHORIZED).json({
+				success: false,
+				error: "Unauthorized",
+			});
+			return;
+		}
+
+		const query = historyQuerySchema.safeParse(req.query);
+
+		if (!query.success) {
+			res.status(StatusCodes.BAD_REQUEST).json({
+				success: false,
+				error: "Invalid query",
+				details: formatZodIssues(query.error),
+			});
+			return;
+		}
+
+		const { limit, cursor, contentType, from, to } = query.data;
+
+		const profile = getActiveProfile(req);
+
+		const where: Prisma.WatchHistoryWhereInput = {
+			profileId: profile.id,
+			...(contentType && { contentType }),
+			...((from || to) && {
+				watchedAt: {
+					...(from && { gte: from }),
+					...(to && { lte: to }),
+				},
+			}),
+		};
+
+		// Fetch one extra row so we know whether another page exists
+		const items = await prisma.watchHistory.findMany({
+			where,
+			orderBy: [{ watchedAt: "desc" }, { id: "desc" }],
+			take: limit + 1,
+			...(cursor && { cursor: { id: cursor }, skip: 1 }),
+		});
+
+		const hasMore = items.length > limit;
+		const data = hasMore ? items.slice(0, limit) : items;
+
+		res.json({
+			success: true,
+			data,
+			pagination: {
+				limit,
+				hasMore,
+				nextCursor: hasMore ? (data[data.length - 1]?.id ?? null) : null,
+			},
+		});
+	} catch (error) {
+		logger.error(error, "Error in getWatchHistory:");
+		res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+			success: false,
+			error: "Failed to fetch watch history",
+		});
+	}
+};
+
+/**
+ * Record a Watch History Entry
+ * Called by the player when the user starts or finishes watching something
+ */
+export const recordWatchHistory = async (
+	req: Request,
+	res: Response,
+): Promise<void> => {
+	try {
+		const clerkUserId = req.auth?.userId;
+
+		if (!clerkUserId) {
+			res.status(StatusCodes.UNAUTHORIZED).json({
+				success: false,
+				error: "Unauthorized",
+			});
+			return;
+		}
+
+		const { tmdbId, contentType, title, posterPath, completed } = req.body;
+
+		if (!tmdbId || !contentType || !title) {
+			res.status(StatusCodes.BAD_REQUEST).json({
+				success: false,
+				error: "tmdbId, contentType, and title are required",
+			});
+			return;
+		}
+
+		if (contentType !== "movie" && contentType !== "tv") {
+			res.status(StatusCodes.BAD_REQUEST).json({
+				success: false,
+				error: 'contentType must be either "movie" or "tv"',
+			});
+			return;
+		}
+
+		const duration = parseOptionalInt(req.body.duration);
+		const seasonNumber = parseOptionalInt(req.body.seasonNumber);
+		const episodeNumber = parseOptionalInt(req.body.episodeNumber);
+
+		if (
+			Number.isNaN(duration) ||
+			Number.isNaN(seasonNumber) ||
+			Number.isNaN(episodeNumber)
+		) {
+			res.status(StatusCodes.BAD_REQUEST).json({
+				success: false,
+				error:
+					"duration, seasonNumber, and episodeNumber must be whole numbers of 0 or more",
+			});
+			return;
+		}
+
+		const profile = getActiveProfile(req);
+
+		const entry = await prisma.watchHistory.create({
+			data: {
+				userId: profile.userId,
+				profileId: profile.id,
+				tmdbId: parseInt(tmdbId, 10),
+				contentType,
+				title,
+				posterPath: posterPath || null,
+				duration: duration ?? null,
+				completed: completed === true,
+				// Season and episode only make sense for TV shows
+				seasonNumber: contentType === "tv" ? (seasonNumber ?? null) : null,
+				episodeNumber: contentType === "tv" ? (episodeNumber ?? null) : null,
+			},
+		});
+
+		res.status(StatusCodes.CREATED).json({
+			success: true,
+			message: "Watch history recorded successfully",
+			data: entry,
+		});
+	} catch (error) {
+		logger.error(error, "Error in recordWatchHistory:");
+		res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+			success: false,
+			error: "Failed to record watch history",
+		});
+	}
+};
+
+/**
+ * Update a Watch History Entry
+ * Used to save how far the user got, or to mark an entry as completed
+ */
+export const updateWatchHistory = async (
+	req: Request,
+	res: Response,
+): Promise<void> => {
+	try {
+		const clerkUserId = req.auth?.userId;
+
+		if (!clerkUserId) {
+			res.status(StatusCodes.UNAUTHORIZED).json({
+				success: false,
+				error: "Unauthorized",
+			});
+			return;
+		}
+
+		// biome-ignore lint/style/noNonNullAssertion: It must exist when this route is used
+		const historyId = req.params.id!;
+		const { completed } = req.body;
+		const duration = parseOptionalInt(req.body.duration);
+
+		if (Number.isNaN(duration)) {
+			res.status(StatusCodes.BAD_REQUEST).json({
+				success: false,
+				error: "duration must be a whole number of 0 or more",
+			});
+			return;
+		}
+
+		if (completed !== undefined && typeof completed !== "boolean") {
+			res.status(StatusCodes.BAD_REQUEST).json({
+				success: false,
+				error: "completed must be a boolean",
+			});
+			return;
+		}
+
+		if (duration === undefined && completed === undefined) {
+			res.status(StatusCodes.BAD_REQUEST).json({
+				success: false,
+				error: "duration or completed is required",
+			});
+			return;
+		}
+
+		const profile = getActiveProfile(req);
+
+		const item = await prisma.watchHistory.findUnique({
+			where: {
+				id: historyId,
+			},
+		});
+
+		if (!item) {
+			res.status(StatusCodes.NOT_FOUND).json({
+				success: false,
+				error: "Watch history entry not found",
+			});
+			return;
+		}
+
+		if (item.profileId !== profile.id) {
+			res.status(StatusCodes.FORBIDDEN).json({
+				success: false,
+				error: "You do not have permission to update this entry",
+			});
+			return;
+		}
+
+		const entry = await prisma.watchHistory.update({
+			where: {
+				id: historyId,
+			},
+			data: {
+				...(duration !== undefined && { duration }),
+				...(completed !== undefined && { completed }),
+				watchedAt: new Date(), // Bump it to the top of the history
+			},
+		});
+
+		res.json({
+			success: true,
+			message: "Watch history updated successfully",
+			data: entry,
+		});
+	} catch (error) {
+		logger.error(error, "Error in updateWatchHistory:");
+		res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+			success: false,
+			error: "Failed to update watch history",
+		});
+	}
+};
+
+/**
+ * Delete a Watch History Entry
+ */
+export const deleteWatchHistory = async (
+	req: Request,
+	res: Response,
+): Promise<void> => {
+	try {
+		const clerkUserId = req.auth?.userId;
+
+		if (!clerkUserId) {
+			res.status(StatusCodes.UNAUTHORIZED).json({
+				success: false,
+				error: "Unauthorized",
+			});
+			return;
+		}
+
+		// biome-ignore lint/style/noNonNullAssertion: It must exist when this route is used
+		const historyId = req.params.id!;
+
+		const profile = getActiveProfile(req);
+
+		const item = await prisma.watchHistory.findUnique({
+			where: {
+				id: historyId,
+			},
+		});
+
+		if (!item) {
+			res.status(StatusCodes.NOT_FOUND).json({
+				success: false,
+				error: "Watch history entry not found",
+			});
+			return;
+		}
+
+		if (item.profileId !== profile.id) {
+			res.status(StatusCodes.FORBIDDEN).json({
+				success: false,
+				error: "You do not have permission to remove this entry",
+			});
+			return;
+		}
+
+		await prisma.watchHistory.delete({
+			where: {
+				id: historyId,
+			},
+		});
+
+		res.json({
+			success: true,
+			message: "Removed from watch history successfully",
+		});
+	} catch (error) {
+		logger.error(error, "Error in deleteWatchHistory:");
+		res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+			success: false,
+			error: "Failed to remove from watch history",
+		});
+	}
+};
+
+/**
+ * Clear All Watch History
+ * Wipes every history entry for the current user
+ */
+export const clearWatchHistory = async (
+	req: Request,
+	res: Response,
+): Promise<void> => {
+	try {
+		const clerkUserId = req.auth?.userId;
+
+		if (!clerkUserId) {
+			res.status(StatusCodes.UNAUTHORIZED).json({
+				success: false,
+				error: "Unauthorized",
+			});
+			return;
+		}
+
+		const profile = getActiveProfile(req);
+
+		const { count } = await prisma.watchHistory.deleteMany({
+			where: {
+				profileId: profile.id,
+			},
+		});
+
+		res.json({
+			success: true,
+			message: "Watch history cleared successfully",
+			data: { deleted: count },
+		});
+	} catch (error) {
+		logger.error(error, "Error in clearWatchHistory:");
+		res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+			success: false,
+			error: "Failed to clear watch history",
+		});
+	}
+};
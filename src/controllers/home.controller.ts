@@ -0,0 +1,70 @@
+import type { Request, Response } from "express";
+import { StatusCodes } from "http-status-codes";
+import { env } from "../config/env.js";
+import { getActiveProfile } from "../middleware/profile.middleware.js";
+import { getContinueWatching } from "../services/home.service.js";
+import { resolveLanguage } from "../utils/locale.js";
+import logger from "../utils/logger.js";
+
+/**
+ * Home Controllers
+ *
+ * These power the personalised rows on the home screen. They require
+ * authentication because every row is built from the user's own activity.
+ */
+
+/**
+ * Get "Continue Watching" Row
+ * Example: GET /api/home/continue-watching?days=14&limit=20
+ *
+ * Returns partially watched movies and, for each in-progress show,
+ * the next episode to watch. `days` overrides how long an untouched
+ * item stays in the row.
+ */
+export const getContinueWatchingRow = async (
+	req: Request,
+	res: Response,
+): Promise<void> => {
+	try {
+		const clerkUserId = req.auth?.userId;
+
+		if (!clerkUserId) {
+			res.status(StatusCodes.UNAUTHORIZED).json({
+				success: false,
+				error: "Unauthorized",
+			});
+			return;
+		}
+
+		const maxAgeDays =
+			parseInt(req.query.days as string, 10) ||
+			env.CONTINUE_WATCHING_MAX_AGE_DAYS;
+		const limit = Math.min(parseInt(req.query.limit as string, 10) || 20, 50);
+
+		if (maxAgeDays < 1 || limit < 1) {
+			res.status(StatusCodes.BAD_REQUEST).json({
+				success: false,
+				error: "days and limit must be positive numbers",
+			});
+			return;
+		}
+
+		const profile = getActiveProfile(req);
+		const items = await getContinueWatching(profile.id, {
+			maxAgeDays,
+			limit,
+			language: resolveLanguage(req),
+		});
+
+		res.json({
+			success: true,
+			data: items,
+		});
+	} catch (error) {
+		logger.error(error, "Error in getContinueWatchingRow:");
+		res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+			success: false,
+			error: "Failed to fetch continue watching",
+		});
+	}
+};
@@ -0,0 +1,92 @@
+import type { Request, Response } from "express";
+import { StatusCodes } from "http-status-codes";
+import { getActiveProfile } from "../middleware/profile.middleware.js";
+import { formatZodIssues } from "../schemas/common.schema.js";
+import { importQuerySchema } from "../schemas/import.schema.js";
+import {
+	defaultImportTarget,
+	importRows,
+	parseImportFile,
+} from "../services/import.service.js";
+import logger from "../utils/logger.js";
+
+/**
+ * Import Controllers
+ *
+ * Bring a watchlist, favorites or watch history over from Letterboxd,
+ * IMDb or Trakt, using the files those services export.
+ */
+
+/**
+ * Import an Export File
+ * Example: POST /api/imports?format=letterboxd_diary&dryRun=true
+ *
+ * Body: the file's contents, sent as text/csv or application/json.
+ * Query: format, target? ("watchlist", "favorites" or "history"), dryRun?
+ * Returns what was matched and imported, and the rows that couldn't be
+ * matched. A dry run writes nothing.
+ */
+export const importFile = async (
+	req: Request,
+	res: Response,
+): Promise<void> => {
+	try {
+		const clerkUserId = req.auth?.userId;
+
+		if (!clerkUserId) {
+			res.status(StatusCodes.UNAUTHORIZED).json({
+				success: false,
+				error: "Unauthorized",
+			});
+			return;
+		}
+
+		const query = importQuerySchema.safeParse(req.query);
+
+		if (!query.success) {
+			res.status(StatusCodes.BAD_REQUEST).json({
+				success: false,
+				error: "Invalid import",
+				details: formatZodIssues(query.error),
+			});
+			return;
+		}
+
+		if (typeof req.body !== "string" || req.body.trim() === "") {
+			res.status(StatusCodes.BAD_REQUEST).json({
+				success: false,
+				error: "Send the export file as the request body",
+			});
+			return;
+		}
+
+		const { format, dryRun } = query.data;
+		const rows = parseImportFile(format, req.body);
+
+		if (typeof rows === "string") {
+			res.status(StatusCodes.BAD_REQUEST).json({
+				success: false,
+				error: rows,
+			});
+			return;
+		}
+
+		const profile = getActiveProfile(req);
+		const target = query.data.target ?? defaultImportTarget(format, rows);
+		const report = await importRows(profile, format, target, rows, dryRun);
+
+		res.json({
+			success: true,
+			message: dryRun
+				? "Import preview created. Nothing has been saved yet."
+				: `Imported ${report.summary.created} of ${report.summary.rows} rows`,
+			data: report,
+		});
+	} catch (error) {
+		logger.error(error, "Error in importFile:");
+		res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+			success: false,
+			error: "Failed to import file",
+		});
+	}
+};
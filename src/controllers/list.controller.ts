@@ -0,0 +1,595 @@
+import type { Request, Response } from "express";
+import { StatusCodes } from "http-status-codes";
+import prisma from "../config/prisma.js";
+import type { List, Profile } from "../generated/prisma/client.js";
+import { getActiveProfile } from "../middleware/profile.middleware.js";
+import { formatZodIssues } from "../schemas/common.schema.js";
+import {
+	addListItemSchema,
+	createListSchema,
+	reorderListItemsSchema,
+	updateListSchema,
+} from "../schemas/list.schema.js";
+import { updateSharingSchema } from "../schemas/share.schema.js";
+import {
+	addListItem,
+	getListItems,
+	getListSummary,
+	getLists,
+	MAX_ITEMS_PER_LIST,
+	MAX_LISTS_PER_PROFILE,
+	removeListItem,
+	reorderListItems,
+} from "../services/list.service.js";
+import { updateListSharing } from "../services/share.service.js";
+import logger from "../utils/logger.js";
+
+/**
+ * List Controllers
+ *
+ * Custom lists work like extra, named watchlists. Each one belongs to the
+ * profile that made it, and only that profile can see or change it.
+ */
+
+/**
+ * Load a list from the route's :id and check the active profile owns it.
+ * Sends the 404/403 response and returns null when it doesn't.
+ */
+const findOwnedList = async (
+	req: Request,
+	res: Response,
+	profile: Profile,
+	action: string,
+): Promise<List | null> => {
+	const list = await prisma.list.findUnique({
+		// biome-ignore lint/style/noNonNullAssertion: It must exist when this route is used
+		where: { id: req.params.id! },
+	});
+
+	if (!list) {
+		res.status(StatusCodes.NOT_FOUND).json({
+			success: false,
+			error: "List not found",
+		});
+		return null;
+	}
+
+	if (list.profileId !== profile.id) {
+		res.status(StatusCodes.FORBIDDEN).json({
+			success: false,
+			error: `You do not have permission to ${action}`,
+		});
+		return null;
+	}
+
+	return list;
+};
+
+/**
+ * Get the Active Profile's Lists
+ * Example: GET /api/lists
+ */
+export const listLists = async (req: Request, res: Response): Promise<void> => {
+	try {
+		const clerkUserId = req.auth?.userId;
+
+		if (!clerkUserId) {
+			res.status(StatusCodes.UNAUTHORIZED).json({
+				success: false,
+				error: "Unauthorized",
+			});
+			return;
+		}
+
+		const profile = getActiveProfile(req);
+		const lists = await getLists(profile.id);
+
+		res.json({
+			success: true,
+			data: lists,
+		});
+	} catch (error) {
+		logger.error(error, "Error in listLists:");
+		res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+			success: false,
+			error: "Failed to fetch lists",
+		});
+	}
+};
+
+/**
+ * Create a List
+ * Example: POST /api/lists
+ *
+ * Body: { name, description?, coverImageUrl? }
+ */
+export const createList = async (
+	req: Request,
+	res: Response,
+): Promise<void> => {
+	try {
+		const clerkUserId = req.auth?.userId;
+
+		if (!clerkUserId) {
+			res.status(StatusCodes.UNAUTHORIZED).json({
+				success: false,
+				error: "Unauthorized",
+			});
+			return;
+		}
+
+		const body = createListSchema.safeParse(req.body);
+
+		if (!body.success) {
+			res.status(StatusCodes.BAD_REQUEST).json({
+				success: false,
+				error: "Invalid list",
+				details: formatZodIssues(body.error),
+			});
+			return;
+		}
+
+		const profile = getActiveProfile(req);
+		const { name, description, coverImageUrl } = body.data;
+
+		const count = await prisma.list.count({
+			where: { profileId: profile.id },
+		});
+
+		if (count >= MAX_LISTS_PER_PROFILE) {
+			res.status(StatusCodes.BAD_REQUEST).json({
+				success: false,
+				error: `A profile can have at most ${MAX_LISTS_PER_PROFILE} lists`,
+			});
+			return;
+		}
+
+		const existing = await prisma.list.findUnique({
+			where: { profileId_name: { profileId: profile.id, name } },
+		});
+
+		if (existing) {
+			res.status(StatusCodes.CONFLICT).json({
+				success: false,
+				error: "A list with this name already exists",
+			});
+			return;
+		}
+
+		const list = await prisma.list.create({
+			data: {
+				userId: profile.userId,
+				profileId: profile.id,
+				name,
+				description: description ?? null,
+				coverImageUrl: coverImageUrl ?? null,
+			},
+		});
+
+		res.status(StatusCodes.CREATED).json({
+			success: true,
+			message: "List created successfully",
+			data: { ...list, itemCount: 0, saveCount: 0 },
+		});
+	} catch (error) {
+		logger.error(error, "Error in createList:");
+		res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+			success: false,
+			error: "Failed to create list",
+		});
+	}
+};
+
+/**
+ * Get a List with its Items
+ * Example: GET /api/lists/:id
+ */
+export const getList = async (req: Request, res: Response): Promise<void> => {
+	try {
+		const clerkUserId = req.auth?.userId;
+
+		if (!clerkUserId) {
+			res.status(StatusCodes.UNAUTHORIZED).json({
+				success: false,
+				error: "Unauthorized",
+			});
+			return;
+		}
+
+		const profile = getActiveProfile(req);
+		const list = await findOwnedList(req, res, profile, "view this list");
+		if (!list) return;
+
+		const [summary, items] = await Promise.all([
+			getListSummary(list.id),
+			getListItems(list.id),
+		]);
+
+		res.json({
+			success: true,
+			data: { ...summary, items },
+		});
+	} catch (error) {
+		logger.error(error, "Error in getList:");
+		res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+			success: false,
+			error: "Failed to fetch list",
+		});
+	}
+};
+
+/**
+ * Update a List
+ * Example: PATCH /api/lists/:id
+ *
+ * Body: any of { name, description, coverImageUrl }
+ * Send null to clear the description or cover image.
+ */
+export const updateList = async (
+	req: Request,
+	res: Response,
+): Promise<void> => {
+	try {
+		const clerkUserId = req.auth?.userId;
+
+		if (!clerkUserId) {
+			res.status(StatusCodes.UNAUTHORIZED).json({
+				success: false,
+				error: "Unauthorized",
+			});
+			return;
+		}
+
+		const body = updateListSchema.safeParse(req.body);
+
+		if (!body.success) {
+			res.status(StatusCodes.BAD_REQUEST).json({
+				success: false,
+				error: "Invalid list",
+				details: formatZodIssues(body.error),
+			});
+			return;
+		}
+
+		const profile = getActiveProfile(req);
+		const list = await findOwnedList(req, res, profile, "update this list");
+		if (!list) return;
+
+		const changes = body.data;
+
+		if (changes.name !== undefined && changes.name !== list.name) {
+			const existing = await prisma.list.findUnique({
+				where: {
+					profileId_name: { profileId: profile.id, name: changes.name },
+				},
+			});
+
+			if (existing) {
+				res.status(StatusCodes.CONFLICT).json({
+					success: false,
+					error: "A list with this name already exists",
+				});
+				return;
+			}
+		}
+
+		await prisma.list.update({
+			where: { id: list.id },
+			data: {
+				...(changes.name !== undefined && { name: changes.name }),
+				...(changes.description !== undefined && {
+					description: changes.description,
+				}),
+				...(changes.coverImageUrl !== undefined && {
+					coverImageUrl: changes.coverImageUrl,
+				}),
+			},
+		});
+
+		res.json({
+			success: true,
+			message: "List updated successfully",
+			data: await getListSummary(list.id),
+		});
+	} catch (error) {
+		logger.error(error, "Error in updateList:");
+		res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+			success: false,
+			error: "Failed to update list",
+		});
+	}
+};
+
+/**
+ * Delete a List
+ * Example: DELETE /api/lists/:id
+ *
+ * Deletes the items on it too. The titles stay on the watchlist or
+ * favorites if they were also saved there.
+ */
+export const deleteList = async (
+	req: Request,
+	res: Response,
+): Promise<void> => {
+	try {
+		const clerkUserId = req.auth?.userId;
+
+		if (!clerkUserId) {
+			res.status(StatusCodes.UNAUTHORIZED).json({
+				success: false,
+				error: "Unauthorized",
+			});
+			return;
+		}
+
+		const profile = getActiveProfile(req);
+		const list = await findOwnedList(req, res, profile, "delete this list");
+		if (!list) return;
+
+		await prisma.list.delete({
+			where: { id: list.id },
+		});
+
+		res.json({
+			success: true,
+			message: "List deleted successfully",
+		});
+	} catch (error) {
+		logger.error(error, "Error in deleteList:");
+		res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+			success: false,
+			error: "Failed to delete list",
+		});
+	}
+};
+
+/**
+ * Add an Item to a List
+ * Example: POST /api/lists/:id/items
+ *
+ * Body: { tmdbId, contentType, title, posterPath?, note?, position? }
+ * Without a position the item goes at the end of the list.
+ */
+export const addItemToList = async (
+	req: Request,
+	res: Response,
+): Promise<void> => {
+	try {
+		const clerkUserId = req.auth?.userId;
+
+		if (!clerkUserId) {
+			res.status(StatusCodes.UNAUTHORIZED).json({
+				success: false,
+				error: "Unauthorized",
+			});
+			return;
+		}
+
+		const body = addListItemSchema.safeParse(req.body);
+
+		if (!body.success) {
+			res.status(StatusCodes.BAD_REQUEST).json({
+				success: false,
+				error: "Invalid list item",
+				details: formatZodIssues(body.error),
+			});
+			return;
+		}
+
+		const profile = getActiveProfile(req);
+		const list = await findOwnedList(req, res, profile, "change this list");
+		if (!list) return;
+
+		const { tmdbId, contentType } = body.data;
+
+		const existing = await prisma.listItem.findUnique({
+			where: {
+				listId_tmdbId_contentType: { listId: list.id, tmdbId, contentType },
+			},
+		});
+
+		if (existing) {
+			res.status(StatusCodes.CONFLICT).json({
+				success: false,
+				error: "This title is already on the list",
+			});
+			return;
+		}
+
+		const count = await prisma.listItem.count({ where: { listId: list.id } });
+
+		if (count >= MAX_ITEMS_PER_LIST) {
+			res.status(StatusCodes.BAD_REQUEST).json({
+				success: false,
+				error: `A list can hold at most ${MAX_ITEMS_PER_LIST} items`,
+			});
+			return;
+		}
+
+		const item = await addListItem(list.id, body.data);
+
+		res.status(StatusCodes.CREATED).json({
+			success: true,
+			message: "Added to list successfully",
+			data: item,
+		});
+	} catch (error) {
+		logger.error(error, "Error in addItemToList:");
+		res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+			success: false,
+			error: "Failed to add to list",
+		});
+	}
+};
+
+/**
+ * Remove an Item from a List
+ * Example: DELETE /api/lists/:id/items/:itemId
+ */
+export const removeItemFromList = async (
+	req: Request,
+	res: Response,
+): Promise<void> => {
+	try {
+		const clerkUserId = req.auth?.userId;
+
+		if (!clerkUserId) {
+			res.status(StatusCodes.UNAUTHORIZED).json({
+				success: false,
+				error: "Unauthorized",
+			});
+			return;
+		}
+
+		const profile = getActiveProfile(req);
+		const list = await findOwnedList(req, res, profile, "change this list");
+		if (!list) return;
+
+		const item = await prisma.listItem.findUnique({
+			// biome-ignore lint/style/noNonNullAssertion: It must exist when this route is used
+			where: { id: req.params.itemId! },
+		});
+
+		if (!item || item.listId !== list.id) {
+			res.status(StatusCodes.NOT_FOUND).json({
+				success: false,
+				error: "List item not found",
+			});
+			return;
+		}
+
+		await removeListItem(item);
+
+		res.json({
+			success: true,
+			message: "Removed from list successfully",
+		});
+	} catch (error) {
+		logger.error(error, "Error in removeItemFromList:");
+		res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+			success: false,
+			error: "Failed to remove from list",
+		});
+	}
+};
+
+/**
+ * Reorder a List's Items
+ * Example: PUT /api/lists/:id/items/order
+ *
+ * Body: { itemIds: [...] } - every item ID on the list, in the new order
+ */
+export const reorderList = async (
+	req: Request,
+	res: Response,
+): Promise<void> => {
+	try {
+		const clerkUserId = req.auth?.userId;
+
+		if (!clerkUserId) {
+			res.status(StatusCodes.UNAUTHORIZED).json({
+				success: false,
+				error: "Unauthorized",
+			});
+			return;
+		}
+
+		const body = reorderListItemsSchema.safeParse(req.body);
+
+		if (!body.success) {
+			res.status(StatusCodes.BAD_REQUEST).json({
+				success: false,
+				error: "Invalid order",
+				details: formatZodIssues(body.error),
+			});
+			return;
+		}
+
+		const profile = getActiveProfile(req);
+		const list = await findOwnedList(req, res, profile, "change this list");
+		if (!list) return;
+
+		const { itemIds } = body.data;
+		const items = await getListItems(list.id);
+
+		// A partial order would leave the positions ambiguous
+		if (
+			itemIds.length !== items.length ||
+			!items.every((item) => itemIds.includes(item.id))
+		) {
+			res.status(StatusCodes.BAD_REQUEST).json({
+				success: false,
+				error: "itemIds must contain every item on the list exactly once",
+			});
+			return;
+		}
+
+		const reordered = await reorderListItems(list.id, itemIds);
+
+		res.json({
+			success: true,
+			message: "List reordered successfully",
+			data: reordered,
+		});
+	} catch (error) {
+		logger.error(error, "Error in reorderList:");
+		res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+			success: false,
+			error: "Failed to reorder list",
+		});
+	}
+};
+
+/**
+ * Share a List
+ * Example: PATCH /api/lists/:id/sharing
+ *
+ * Body: { visibility?: "private" | "unlisted" | "public", regenerateLink?: true }
+ * The share link is created the first time the list stops being private.
+ * Regenerating it breaks the old link.
+ */
+export const updateListSharingSettings = async (
+	req: Request,
+	res: Response,
+): Promise<void> => {
+	try {
+		const clerkUserId = req.auth?.userId;
+
+		if (!clerkUserId) {
+			res.status(StatusCodes.UNAUTHORIZED).json({
+				success: false,
+				error: "Unauthorized",
+			});
+			return;
+		}
+
+		const body = updateSharingSchema.safeParse(req.body);
+
+		if (!body.success) {
+			res.status(StatusCodes.BAD_REQUEST).json({
+				success: false,
+				error: "Invalid sharing settings",
+				details: formatZodIssues(body.error),
+			});
+			return;
+		}
+
+		const profile = getActiveProfile(req);
+		const list = await findOwnedList(req, res, profile, "share this list");
+		if (!list) return;
+
+		const sharing = await updateListSharing(list, body.data);
+
+		res.json({
+			success: true,
+			message: "Sharing settings updated successfully",
+			data: sharing,
+		});
+	} catch (error) {
+		logger.error(error, "Error in updateListSharingSettings:");
+		res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+			success: false,
+			error: "Failed to update sharing settings",
+		});
+	}
+};
@@ -1,7 +1,25 @@
 import type { Request, Response } from "express";
 import { StatusCodes } from "http-status-codes";
+import { formatZodIssues } from "../schemas/common.schema.js";
+import {
+	movieDiscoverSchema,
+	withoutSharedParams,
+} from "../schemas/discover.schema.js";
+import { getCertification } from "../services/certification.service.js";
+import {
+	getProviderCatalog,
+	getTitleWatchProviders,
+} from "../services/provider.service.js";
+import { applyContentRestrictions } from "../services/restriction.service.js";
 import { tmdbService } from "../services/tmdb.service.js";
+import {
+	parseRegion,
+	resolveLanguage,
+	resolveRegion,
+} from "../utils/locale.js";
 import logger from "../utils/logger.js";
+import { resolveContentRestrictions } from "../utils/maturity.js";
+import { attachUserState } from "../utils/userState.js";
 
 /**
  * Movie Controllers
@@ -27,11 +45,20 @@ export const getTrendingMovies = async (
 	try {
 		const timeWindow = (req.query.timeWindow as "day" | "week") || "week";
 
-		const movies = await tmdbService.getTrending("movie", timeWindow);
+		const movies = await applyContentRestrictions(
+			"movie",
+			await tmdbService.getTrending(
+				"movie",
+				timeWindow,
+				resolveLanguage(req),
+				resolveRegion(req),
+			),
+			resolveContentRestrictions(req, "movie"),
+		);
 
 		res.json({
 			success: true,
-			data: movies,
+			data: await attachUserState(req, movies, "movie"),
 		});
 	} catch (error) {
 		logger.error(error, "Error in getSimilarMovies:");
@@ -63,11 +90,20 @@ export const getMovieRecommendations = async (
 			return;
 		}
 
-		const movies = await tmdbService.getRecommendations("movie", movieId, page);
+		const movies = await applyContentRestrictions(
+			"movie",
+			await tmdbService.getRecommendations(
+				"movie",
+				movieId,
+				page,
+				resolveLanguage(req),
+			),
+			resolveContentRestrictions(req, "movie"),
+		);
 
 		res.json({
 			success: true,
-			data: movies,
+			data: await attachUserState(req, movies, "movie"),
 		});
 	} catch (error) {
 		logger.error(error, "Error in getMovieRecommendations:");
@@ -98,11 +134,15 @@ export const searchMovies = async (
 			return;
 		}
 
-		const movies = await tmdbService.search(query, "movie", page);
+		const movies = await applyContentRestrictions(
+			"movie",
+			await tmdbService.search(query, "movie", page, resolveLanguage(req)),
+			resolveContentRestrictions(req, "movie"),
+		);
 
 		res.json({
 			success: true,
-			data: movies,
+			data: await attachUserState(req, movies, "movie"),
 		});
 	} catch (error) {
 		logger.error(error, "Error in searchMovies:");
@@ -122,18 +162,36 @@ export const discoverMovies = async (
 	res: Response,
 ): Promise<void> => {
 	try {
-		const filters = {
-			with_genres: req.query.with_genres as string,
-			year: parseInt(req.query.year as string, 10),
-			sort_by: (req.query.sort_by as string) || "popularity.desc",
-			page: parseInt(req.query.page as string, 10) || 1,
-		};
+		const filters = movieDiscoverSchema.safeParse(
+			withoutSharedParams(req.query),
+		);
 
-		const movies = await tmdbService.discover("movie", filters);
+		if (!filters.success) {
+			res.status(StatusCodes.BAD_REQUEST).json({
+				success: false,
+				error: "Invalid discover filters",
+				details: formatZodIssues(filters.error),
+			});
+			return;
+		}
+
+		const restrictions = resolveContentRestrictions(req, "movie");
+		const movies = await applyContentRestrictions(
+			"movie",
+			await tmdbService.discover(
+				"movie",
+				// Kids profiles never get adult titles, whatever the filters say
+				restrictions?.hideAdult
+					? { ...filters.data, include_adult: false }
+					: filters.data,
+				resolveLanguage(req),
+			),
+			restrictions,
+		);
 
 		res.json({
 			success: true,
-			data: movies,
+			data: await attachUserState(req, movies, "movie"),
 		});
 	} catch (error) {
 		logger.error(error, "Error in discoverMovies:");
@@ -149,11 +207,11 @@ export const discoverMovies = async (
  * Example: GET /api/movies/genres
  */
 export const getMovieGenres = async (
-	_req: Request,
+	req: Request,
 	res: Response,
 ): Promise<void> => {
 	try {
-		const genres = await tmdbService.getGenres("movie");
+		const genres = await tmdbService.getGenres("movie", resolveLanguage(req));
 
 		res.json({
 			success: true,
@@ -179,11 +237,20 @@ export const getPopularMovies = async (
 	try {
 		const page = parseInt(req.query.page as string, 10) || 1;
 
-		const movies = await tmdbService.getPopular("movie", page);
+		const movies = await applyContentRestrictions(
+			"movie",
+			await tmdbService.getPopular(
+				"movie",
+				page,
+				resolveLanguage(req),
+				resolveRegion(req),
+			),
+			resolveContentRestrictions(req, "movie"),
+		);
 
 		res.json({
 			success: true,
-			data: movies,
+			data: await attachUserState(req, movies, "movie"),
 		});
 	} catch (error) {
 		logger.error(error, "Error in getPopularMovies:");
@@ -205,11 +272,20 @@ export const getTopRatedMovies = async (
 	try {
 		const page = parseInt(req.query.page as string, 10) || 1;
 
-		const movies = await tmdbService.getTopRated("movie", page);
+		const movies = await applyContentRestrictions(
+			"movie",
+			await tmdbService.getTopRated(
+				"movie",
+				page,
+				resolveLanguage(req),
+				resolveRegion(req),
+			),
+			resolveContentRestrictions(req, "movie"),
+		);
 
 		res.json({
 			success: true,
-			data: movies,
+			data: await attachUserState(req, movies, "movie"),
 		});
 	} catch (error) {
 		logger.error(error, "Error in getTopRatedMovies:");
@@ -231,11 +307,19 @@ export const getNowPlayingMovies = async (
 	try {
 		const page = parseInt(req.query.page as string, 10) || 1;
 
-		const movies = await tmdbService.getNowPlaying(page);
+		const movies = await applyContentRestrictions(
+			"movie",
+			await tmdbService.getNowPlaying(
+				page,
+				resolveLanguage(req),
+				resolveRegion(req),
+			),
+			resolveContentRestrictions(req, "movie"),
+		);
 
 		res.json({
 			success: true,
-			data: movies,
+			data: await attachUserState(req, movies, "movie"),
 		});
 	} catch (error) {
 		logger.error(error, "Error in getNowPlayingMovies:");
@@ -257,11 +341,19 @@ export const getUpcomingMovies = async (
 	try {
 		const page = parseInt(req.query.page as string, 10) || 1;
 
-		const movies = await tmdbService.getUpcoming(page);
+		const movies = await applyContentRestrictions(
+			"movie",
+			await tmdbService.getUpcoming(
+				page,
+				resolveLanguage(req),
+				resolveRegion(req),
+			),
+			resolveContentRestrictions(req, "movie"),
+		);
 
 		res.json({
 			success: true,
-			data: movies,
+			data: await attachUserState(req, movies, "movie"),
 		});
 	} catch (error) {
 		logger.error(error, "Error in getUpcomingMovies:");
@@ -292,11 +384,14 @@ export const getMovieDetails = async (
 			return;
 		}
 
-		const movie = await tmdbService.getMovieDetails(movieId);
+		const [movie, certification] = await Promise.all([
+			tmdbService.getMovieDetails(movieId, resolveLanguage(req)),
+			getCertification("movie", movieId, resolveRegion(req)),
+		]);
 
 		res.json({
 			success: true,
-			data: movie,
+			data: { ...movie, certification },
 		});
 	} catch (error) {
 		logger.error(error, "Error in getMovieDetails:");
@@ -327,7 +422,11 @@ export const getMovieCredits = async (
 			return;
 		}
 
-		const credits = await tmdbService.getCredits("movie", movieId);
+		const credits = await tmdbService.getCredits(
+			"movie",
+			movieId,
+			resolveLanguage(req),
+		);
 
 		res.json({
 			success: true,
@@ -362,7 +461,11 @@ export const getMovieVideos = async (
 			return;
 		}
 
-		const videos = await tmdbService.getVideos("movie", movieId);
+		const videos = await tmdbService.getVideos(
+			"movie",
+			movieId,
+			resolveLanguage(req),
+		);
 
 		res.json({
 			success: true,
@@ -398,11 +501,20 @@ export const getSimilarMovies = async (
 			return;
 		}
 
-		const movies = await tmdbService.getSimilar("movie", movieId, page);
+		const movies = await applyContentRestrictions(
+			"movie",
+			await tmdbService.getSimilar(
+				"movie",
+				movieId,
+				page,
+				resolveLanguage(req),
+			),
+			resolveContentRestrictions(req, "movie"),
+		);
 
 		res.json({
 			success: true,
-			data: movies,
+			data: await attachUserState(req, movies, "movie"),
 		});
 	} catch (error) {
 		logger.error(error, "Error in getSimilarMovies:");
@@ -412,3 +524,87 @@ export const getSimilarMovies = async (
 		});
 	}
 };
+
+/**
+ * Get Movie Watch Providers
+ * Example: GET /api/movies/550/providers?region=GB
+ *
+ * Region defaults to the Accept-Language header, then "US".
+ */
+export const getMovieWatchProviders = async (
+	req: Request,
+	res: Response,
+): Promise<void> => {
+	try {
+		// biome-ignore lint/style/noNonNullAssertion: The id must be provided when using this route
+		const movieId = parseInt(req.params.id!, 10);
+
+		if (Number.isNaN(movieId)) {
+			res.status(StatusCodes.BAD_REQUEST).json({
+				success: false,
+				error: "Invalid movie ID",
+			});
+			return;
+		}
+
+		if (req.query.region !== undefined && !parseRegion(req.query.region)) {
+			res.status(StatusCodes.BAD_REQUEST).json({
+				success: false,
+				error: "region must be a two-letter country code like 'US'",
+			});
+			return;
+		}
+
+		const providers = await getTitleWatchProviders(
+			"movie",
+			movieId,
+			resolveRegion(req),
+		);
+
+		res.json({
+			success: true,
+			data: providers,
+		});
+	} catch (error) {
+		logger.error(error, "Error in getMovieWatchProviders:");
+		res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+			success: false,
+			error: "Failed to fetch movie watch providers",
+		});
+	}
+};
+
+/**
+ * Get Movie Watch Provider Catalog
+ * Example: GET /api/movies/providers?region=GB
+ *
+ * Lists every provider in a region, for building provider filters.
+ */
+export const getMovieProviderCatalog = async (
+	req: Request,
+	res: Response,
+): Promise<void> => {
+	try {
+		if (req.query.region !== undefined && !parseRegion(req.query.region)) {
+			res.status(StatusCodes.BAD_REQUEST).json({
+				success: false,
+				error: "region must be a two-letter country code like 'US'",
+			});
+			return;
+		}
+
+		const region = resolveRegion(req);
+		const providers = await getProviderCatalog("movie", region);
+
+		res.json({
+			success: true,
+			data: { region, providers },
+		});
+	} catch (error) {
+		logger.error(error, "Error in getMovieProviderCatalog:");
+		res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+			success: false,
+			error: "Failed to fetch movie provider catalog",
+		});
+	}
+};
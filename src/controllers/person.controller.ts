@@ -0,0 +1,258 @@
+import type { Request, Response } from "express";
+import { StatusCodes } from "http-status-codes";
+import { tmdbService } from "../services/tmdb.service.js";
+import type {
+	TMDBPersonCastCredit,
+	TMDBPersonCrewCredit,
+} from "../types/tmdb.types.js";
+import { resolveLanguage } from "../utils/locale.js";
+import logger from "../utils/logger.js";
+
+/**
+ * People Controllers
+ *
+ * These controllers handle actors, directors and other crew members.
+ * Credits endpoints return person ids, and these endpoints are where
+ * the client goes when someone clicks on a name.
+ */
+
+type PersonCredit = TMDBPersonCastCredit | TMDBPersonCrewCredit;
+
+/**
+ * Sort credits either by popularity (most popular first)
+ * or by release date (newest first, undated titles last)
+ */
+const sortCredits = <T extends PersonCredit>(
+	credits: T[],
+	sortBy: "popularity" | "release_date",
+): T[] => {
+	if (sortBy === "popularity") {
+		return [...credits].sort((a, b) => b.popularity - a.popularity);
+	}
+
+	const dateOf = (credit: PersonCredit) =>
+		credit.release_date || credit.first_air_date || "";
+
+	return [...credits].sort((a, b) => dateOf(b).localeCompare(dateOf(a)));
+};
+
+/**
+ * Get Trending People
+ * Example: GET /api/people/trending?timeWindow=week
+ */
+export const getTrendingPeople = async (
+	req: Request,
+	res: Response,
+): Promise<void> => {
+	try {
+		const timeWindow = (req.query.timeWindow as "day" | "week") || "week";
+		const people = await tmdbService.getTrendingPeople(
+			timeWindow,
+			resolveLanguage(req),
+		);
+
+		res.json({
+			success: true,
+			data: people,
+		});
+	} catch (error) {
+		logger.error(error, "Error in getTrendingPeople:");
+		res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+			success: false,
+			error: "Failed to fetch trending people",
+		});
+	}
+};
+
+/**
+ * Get Popular People
+ * Example: GET /api/people/popular?page=1
+ */
+export const getPopularPeople = async (
+	req: Request,
+	res: Response,
+): Promise<void> => {
+	try {
+		const page = parseInt(req.query.page as string, 10) || 1;
+		const people = await tmdbService.getPopularPeople(
+			page,
+			resolveLanguage(req),
+		);
+
+		res.json({
+			success: true,
+			data: people,
+		});
+	} catch (error) {
+		logger.error(error, "Error in getPopularPeople:");
+		res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+			success: false,
+			error: "Failed to fetch popular people",
+		});
+	}
+};
+
+/**
+ * Search People
+ * Example: GET /api/people/search?query=keanu&page=1
+ */
+export const searchPeople = async (
+	req: Request,
+	res: Response,
+): Promise<void> => {
+	try {
+		const query = req.query.query as string;
+		const page = parseInt(req.query.page as string, 10) || 1;
+
+		if (!query || query.trim() === "") {
+			res.status(StatusCodes.BAD_REQUEST).json({
+				success: false,
+				error: "Search query is required",
+			});
+			return;
+		}
+
+		const people = await tmdbService.searchPeople(
+			query,
+			page,
+			resolveLanguage(req),
+		);
+
+		res.json({
+			success: true,
+			data: people,
+		});
+	} catch (error) {
+		logger.error(error, "Error in searchPeople:");
+		res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+			success: false,
+			error: "Failed to search people",
+		});
+	}
+};
+
+/**
+ * Get Person Details
+ * Example: GET /api/people/6384 (where 6384 is Keanu Reeves' ID)
+ */
+export const getPersonDetails = async (
+	req: Request,
+	res: Response,
+): Promise<void> => {
+	try {
+		// biome-ignore lint/style/noNonNullAssertion: The id must be provided when using this route
+		const personId = parseInt(req.params.id!, 10);
+
+		if (Number.isNaN(personId)) {
+			res.status(StatusCodes.BAD_REQUEST).json({
+				success: false,
+				error: "Invalid person ID",
+			});
+			return;
+		}
+
+		const person = await tmdbService.getPersonDetails(
+			personId,
+			resolveLanguage(req),
+		);
+
+		res.json({
+			success: true,
+			data: person,
+		});
+	} catch (error) {
+		logger.error(error, "Error in getPersonDetails:");
+		res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+			success: false,
+			error: "Failed to fetch person details",
+		});
+	}
+};
+
+/**
+ * Get Person Credits (Movies and TV combined)
+ * Example: GET /api/people/6384/credits?sort_by=release_date
+ *
+ * sort_by can be "popularity" (default) or "release_date"
+ */
+export const getPersonCredits = async (
+	req: Request,
+	res: Response,
+): Promise<void> => {
+	try {
+		// biome-ignore lint/style/noNonNullAssertion: The id must be provided when using this route
+		const personId = parseInt(req.params.id!, 10);
+		const sortBy = (req.query.sort_by as string) || "popularity";
+
+		if (Number.isNaN(personId)) {
+			res.status(StatusCodes.BAD_REQUEST).json({
+				success: false,
+				error: "Invalid person ID",
+			});
+			return;
+		}
+
+		if (sortBy !== "popularity" && sortBy !== "release_date") {
+			res.status(StatusCodes.BAD_REQUEST).json({
+				success: false,
+				error: 'sort_by must be either "popularity" or "release_date"',
+			});
+			return;
+		}
+
+		const credits = await tmdbService.getPersonCombinedCredits(
+			personId,
+			resolveLanguage(req),
+		);
+
+		res.json({
+			success: true,
+			data: {
+				id: credits.id,
+				cast: sortCredits(credits.cast, sortBy),
+				crew: sortCredits(credits.crew, sortBy),
+			},
+		});
+	} catch (error) {
+		logger.error(error, "Error in getPersonCredits:");
+		res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+			success: false,
+			error: "Failed to fetch person credits",
+		});
+	}
+};
+
+/**
+ * Get Person Images
+ * Example: GET /api/people/6384/images
+ */
+export const getPersonImages = async (
+	req: Request,
+	res: Response,
+): Promise<void> => {
+	try {
+		// biome-ignore lint/style/noNonNullAssertion: The id must be provided when using this route
+		const personId = parseInt(req.params.id!, 10);
+
+		if (Number.isNaN(personId)) {
+			res.status(StatusCodes.BAD_REQUEST).json({
+				success: false,
+				error: "Invalid person ID",
+			});
+			return;
+		}
+
+		const images = await tmdbService.getPersonImages(personId);
+
+		res.json({
+			success: true,
+			data: images,
+		});
+	} catch (error) {
+		logger.error(error, "Error in getPersonImages:");
+		res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+			success: false,
+			error: "Failed to fetch person images",
+		});
+	}
+};
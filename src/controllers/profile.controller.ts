@@ -0,0 +1,406 @@
+import type { Request, Response } from "express";
+import { StatusCodes } from "http-status-codes";
+import prisma from "../config/prisma.js";
+import { formatZodIssues } from "../schemas/common.schema.js";
+import {
+	createProfileSchema,
+	updateProfileSchema,
+} from "../schemas/profile.schema.js";
+import {
+	DEFAULT_KIDS_MATURITY_LIMIT,
+	getDefaultProfile,
+	getProfiles,
+	KIDS_MATURITY_LIMITS,
+	MAX_PROFILES_PER_USER,
+	setDefaultProfile,
+} from "../services/profile.service.js";
+import { findOrCreateUser } from "../services/user.service.js";
+import logger from "../utils/logger.js";
+
+/**
+ * Profile Controllers
+ *
+ * Manage the viewing profiles on an account. The profile a request acts
+ * as is picked with the X-Profile-Id header (see profile.middleware.ts);
+ * these endpoints are for listing, creating and editing the profiles.
+ */
+
+/**
+ * Check a kids profile isn't given a maturity limit above what kids allow
+ */
+const isAllowedForKids = (isKids: boolean, maturityLimit: string): boolean =>
+	!isKids ||
+	(KIDS_MATURITY_LIMITS as readonly string[]).includes(maturityLimit);
+
+/**
+ * List Profiles
+ * Example: GET /api/user/profiles
+ */
+export const listProfiles = async (
+	req: Request,
+	res: Response,
+): Promise<void> => {
+	try {
+		const clerkUserId = req.auth?.userId;
+
+		if (!clerkUserId) {
+			res.status(StatusCodes.UNAUTHORIZED).json({
+				success: false,
+				error: "Unauthorized",
+			});
+			return;
+		}
+
+		const user = await findOrCreateUser(clerkUserId);
+
+		// Make sure there's always at least the default profile to pick
+		await getDefaultProfile(user);
+		const profiles = await getProfiles(user.id);
+
+		res.json({
+			success: true,
+			data: profiles,
+		});
+	} catch (error) {
+		logger.error(error, "Error in listProfiles:");
+		res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+			success: false,
+			error: "Failed to fetch profiles",
+		});
+	}
+};
+
+/**
+ * Create a Profile
+ * Example: POST /api/user/profiles
+ *
+ * Body: { name, avatarUrl?, isKids?, language?, maturityLimit? }
+ * Kids profiles default to a "7+" maturity limit, others to "18+".
+ */
+export const createProfile = async (
+	req: Request,
+	res: Response,
+): Promise<void> => {
+	try {
+		const clerkUserId = req.auth?.userId;
+
+		if (!clerkUserId) {
+			res.status(StatusCodes.UNAUTHORIZED).json({
+				success: false,
+				error: "Unauthorized",
+			});
+			return;
+		}
+
+		const body = createProfileSchema.safeParse(req.body);
+
+		if (!body.success) {
+			res.status(StatusCodes.BAD_REQUEST).json({
+				success: false,
+				error: "Invalid profile",
+				details: formatZodIssues(body.error),
+			});
+			return;
+		}
+
+		const { name, avatarUrl, isKids, language } = body.data;
+		const maturityLimit =
+			body.data.maturityLimit ?? (isKids ? DEFAULT_KIDS_MATURITY_LIMIT : "18+");
+
+		if (!isAllowedForKids(isKids, maturityLimit)) {
+			res.status(StatusCodes.BAD_REQUEST).json({
+				success: false,
+				error: `Kids profiles can only use these maturity limits: ${KIDS_MATURITY_LIMITS.join(", ")}`,
+			});
+			return;
+		}
+
+		const user = await findOrCreateUser(clerkUserId);
+		await getDefaultProfile(user);
+		const profiles = await getProfiles(user.id);
+
+		if (profiles.length >= MAX_PROFILES_PER_USER) {
+			res.status(StatusCodes.BAD_REQUEST).json({
+				success: false,
+				error: `An account can have at most ${MAX_PROFILES_PER_USER} profiles`,
+			});
+			return;
+		}
+
+		if (profiles.some((profile) => profile.name === name)) {
+			res.status(StatusCodes.CONFLICT).json({
+				success: false,
+				error: "A profile with this name already exists",
+			});
+			return;
+		}
+
+		const profile = await prisma.profile.create({
+			data: {
+				userId: user.id,
+				name,
+				avatarUrl: avatarUrl ?? null,
+				isKids,
+				language,
+				maturityLimit,
+			},
+		});
+
+		res.status(StatusCodes.CREATED).json({
+			success: true,
+			message: "Profile created successfully",
+			data: profile,
+		});
+	} catch (error) {
+		logger.error(error, "Error in createProfile:");
+		res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+			success: false,
+			error: "Failed to create profile",
+		});
+	}
+};
+
+/**
+ * Get a Single Profile
+ * Example: GET /api/user/profiles/:id
+ */
+export const getProfile = async (
+	req: Request,
+	res: Response,
+): Promise<void> => {
+	try {
+		const clerkUserId = req.auth?.userId;
+
+		if (!clerkUserId) {
+			res.status(StatusCodes.UNAUTHORIZED).json({
+				success: false,
+				error: "Unauthorized",
+			});
+			return;
+		}
+
+		const user = await findOrCreateUser(clerkUserId);
+
+		const profile = await prisma.profile.findUnique({
+			// biome-ignore lint/style/noNonNullAssertion: It must exist when this route is used
+			where: { id: req.params.id! },
+		});
+
+		if (!profile) {
+			res.status(StatusCodes.NOT_FOUND).json({
+				success: false,
+				error: "Profile not found",
+			});
+			return;
+		}
+
+		if (profile.userId !== user.id) {
+			res.status(StatusCodes.FORBIDDEN).json({
+				success: false,
+				error: "You do not have permission to view this profile",
+			});
+			return;
+		}
+
+		res.json({
+			success: true,
+			data: profile,
+		});
+	} catch (error) {
+		logger.error(error, "Error in getProfile:");
+		res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+			success: false,
+			error: "Failed to fetch profile",
+		});
+	}
+};
+
+/**
+ * Update a Profile
+ * Example: PATCH /api/user/profiles/:id
+ *
+ * Body: any of { name, avatarUrl, isKids, language, maturityLimit, isDefault: true }
+ */
+export const updateProfile = async (
+	req: Request,
+	res: Response,
+): Promise<void> => {
+	try {
+		const clerkUserId = req.auth?.userId;
+
+		if (!clerkUserId) {
+			res.status(StatusCodes.UNAUTHORIZED).json({
+				success: false,
+				error: "Unauthorized",
+			});
+			return;
+		}
+
+		const body = updateProfileSchema.safeParse(req.body);
+
+		if (!body.success) {
+			res.status(StatusCodes.BAD_REQUEST).json({
+				success: false,
+				error: "Invalid profile",
+				details: formatZodIssues(body.error),
+			});
+			return;
+		}
+
+		// biome-ignore lint/style/noNonNullAssertion: It must exist when this route is used
+		const profileId = req.params.id!;
+		const user = await findOrCreateUser(clerkUserId);
+
+		const profile = await prisma.profile.findUnique({
+			where: { id: profileId },
+		});
+
+		if (!profile) {
+			res.status(StatusCodes.NOT_FOUND).json({
+				success: false,
+				error: "Profile not found",
+			});
+			return;
+		}
+
+		if (profile.userId !== user.id) {
+			res.status(StatusCodes.FORBIDDEN).json({
+				success: false,
+				error: "You do not have permission to update this profile",
+			});
+			return;
+		}
+
+		const { isDefault, ...changes } = body.data;
+		const isKids = changes.isKids ?? profile.isKids;
+
+		// Turning a profile into a kids profile lowers its limit unless a new one is given
+		const maturityLimit =
+			changes.maturityLimit ??
+			(isKids && !profile.isKids
+				? DEFAULT_KIDS_MATURITY_LIMIT
+				: profile.maturityLimit);
+
+		if (!isAllowedForKids(isKids, maturityLimit)) {
+			res.status(StatusCodes.BAD_REQUEST).json({
+				success: false,
+				error: `Kids profiles can only use these maturity limits: ${KIDS_MATURITY_LIMITS.join(", ")}`,
+			});
+			return;
+		}
+
+		if (changes.name !== undefined && changes.name !== profile.name) {
+			const existing = await prisma.profile.findUnique({
+				where: { userId_name: { userId: user.id, name: changes.name } },
+			});
+
+			if (existing) {
+				res.status(StatusCodes.CONFLICT).json({
+					success: false,
+					error: "A profile with this name already exists",
+				});
+				return;
+			}
+		}
+
+		await prisma.profile.update({
+			where: { id: profileId },
+			data: {
+				...(changes.name !== undefined && { name: changes.name }),
+				...(changes.avatarUrl !== undefined && {
+					avatarUrl: changes.avatarUrl,
+				}),
+				...(changes.language !== undefined && { language: changes.language }),
+				isKids,
+				maturityLimit,
+			},
+		});
+
+		const updated = isDefault
+			? await setDefaultProfile(user.id, profileId)
+			: await prisma.profile.findUniqueOrThrow({ where: { id: profileId } });
+
+		res.json({
+			success: true,
+			message: "Profile updated successfully",
+			data: updated,
+		});
+	} catch (error) {
+		logger.error(error, "Error in updateProfile:");
+		res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+			success: false,
+			error: "Failed to update profile",
+		});
+	}
+};
+
+/**
+ * Delete a Profile
+ * Example: DELETE /api/user/profiles/:id
+ *
+ * Deletes the profile's watchlist, favorites, history and progress with it.
+ * The default profile can't be deleted; make another profile the default first.
+ */
+export const deleteProfile = async (
+	req: Request,
+	res: Response,
+): Promise<void> => {
+	try {
+		const clerkUserId = req.auth?.userId;
+
+		if (!clerkUserId) {
+			res.status(StatusCodes.UNAUTHORIZED).json({
+				success: false,
+				error: "Unauthorized",
+			});
+			return;
+		}
+
+		// biome-ignore lint/style/noNonNullAssertion: It must exist when this route is used
+		const profileId = req.params.id!;
+		const user = await findOrCreateUser(clerkUserId);
+
+		const profile = await prisma.profile.findUnique({
+			where: { id: profileId },
+		});
+
+		if (!profile) {
+			res.status(StatusCodes.NOT_FOUND).json({
+				success: false,
+				error: "Profile not found",
+			});
+			return;
+		}
+
+		if (profile.userId !== user.id) {
+			res.status(StatusCodes.FORBIDDEN).json({
+				success: false,
+				error: "You do not have permission to delete this profile",
+			});
+			return;
+		}
+
+		if (profile.isDefault) {
+			res.status(StatusCodes.BAD_REQUEST).json({
+				success: false,
+				error: "The default profile can't be deleted",
+			});
+			return;
+		}
+
+		await prisma.profile.delete({
+			where: { id: profileId },
+		});
+
+		res.json({
+			success: true,
+			message: "Profile deleted successfully",
+		});
+	} catch (error) {
+		logger.error(error, "Error in deleteProfile:");
+		res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+			success: false,
+			error: "Failed to delete profile",
+		});
+	}
+};
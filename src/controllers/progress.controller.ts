@@ -0,0 +1,374 @@
+import type { Request, Response } from "express";
+import { StatusCodes } from "http-status-codes";
+import prisma from "../config/prisma.js";
+import type { Profile } from "../generated/prisma/client.js";
+import { getActiveProfile } from "../middleware/profile.middleware.js";
+import { tmdbService } from "../services/tmdb.service.js";
+import logger from "../utils/logger.js";
+
+/**
+ * Show Progress Controllers
+ *
+ * While watch history is a diary of viewing sessions, show progress keeps
+ * exactly one row per episode. That makes it easy for TV pages to render
+ * checkmarks next to watched episodes and progress bars for each season.
+ *
+ * All these endpoints require authentication because progress is personal,
+ * and progress is kept separately for each viewing profile.
+ */
+
+/**
+ * Mark a batch of episodes as completed for a profile.
+ * Existing rows are flipped to completed and missing ones are created,
+ * all inside one transaction so a season is never half-marked.
+ * Returns how many episodes changed; ones already completed aren't counted.
+ */
+const markEpisodesWatched = async (
+	profile: Pick<Profile, "id" | "userId">,
+	tmdbShowId: number,
+	episodes: Array<{ seasonNumber: number; episodeNumber: number }>,
+): Promise<number> => {
+	const watchedAt = new Date();
+	const seasonNumbers = [...new Set(episodes.map((e) => e.seasonNumber))];
+
+	const [updated, created] = await prisma.$transaction([
+		prisma.showProgress.updateMany({
+			where: {
+				profileId: profile.id,
+				tmdbShowId,
+				seasonNumber: { in: seasonNumbers },
+				completed: false,
+			},
+			data: { completed: true, watchedAt },
+		}),
+		prisma.showProgress.createMany({
+			data: episodes.map((episode) => ({
+				userId: profile.userId,
+				profileId: profile.id,
+				tmdbShowId,
+				seasonNumber: episode.seasonNumber,
+				episodeNumber: episode.episodeNumber,
+				completed: true,
+				watchedAt,
+			})),
+			skipDuplicates: true,
+		}),
+	]);
+
+	return updated.count + created.count;
+};
+
+/**
+ * Get Progress for a Whole Show
+ * Example: GET /api/progress/1396
+ *
+ * Returns the user's episode progress grouped by season, along with
+ * each season's episode count from TMDB so the client can draw progress bars.
+ */
+export const getShowProgress = async (
+	req: Request,
+	res: Response,
+): Promise<void> => {
+	try {
+		const clerkUserId = req.auth?.userId;
+
+		if (!clerkUserId) {
+			res.status(StatusCodes.UNAUTHORIZED).json({
+				success: false,
+				error: "Unauthorized",
+			});
+			return;
+		}
+
+		// biome-ignore lint/style/noNonNullAssertion: It must exist when this route is used
+		const showId = parseInt(req.params.showId!, 10);
+
+		if (Number.isNaN(showId)) {
+			res.status(StatusCodes.BAD_REQUEST).json({
+				success: false,
+				error: "Invalid TV show ID",
+			});
+			return;
+		}
+
+		const profile = getActiveProfile(req);
+
+		const [progress, show] = await Promise.all([
+			prisma.showProgress.findMany({
+				where: {
+					profileId: profile.id,
+					tmdbShowId: showId,
+				},
+				orderBy: [{ seasonNumber: "asc" }, { episodeNumber: "asc" }],
+			}),
+			tmdbService.getTVShowDetails(showId),
+		]);
+
+		const seasons = show.seasons.map((season) => {
+			const episodes = progress.filter(
+				(entry) => entry.seasonNumber === season.season_number,
+			);
+			const completedEpisodes = episodes.filter(
+				(entry) => entry.completed,
+			).length;
+
+			return {
+				seasonNumber: season.season_number,
+				name: season.name,
+				episodeCount: season.episode_count,
+				completedEpisodes,
+				completed:
+					season.episode_count > 0 && completedEpisodes >= season.episode_count,
+				episodes,
+			};
+		});
+
+		res.json({
+			success: true,
+			data: {
+				tmdbShowId: showId,
+				seasons,
+				lastWatched:
+					[...progress].sort(
+						(a, b) => b.watchedAt.getTime() - a.watchedAt.getTime(),
+					)[0] ?? null,
+			},
+		});
+	} catch (error) {
+		logger.error(error, "Error in getShowProgress:");
+		res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+			success: false,
+			error: "Failed to fetch show progress",
+		});
+	}
+};
+
+/**
+ * Save Progress for a Single Episode
+ * Example: PUT /api/progress/1396/season/1/episode/3
+ *
+ * Body: { duration?: number (seconds watched), completed?: boolean }
+ */
+export const updateEpisodeProgress = async (
+	req: Request,
+	res: Response,
+): Promise<void> => {
+	try {
+		const clerkUserId = req.auth?.userId;
+
+		if (!clerkUserId) {
+			res.status(StatusCodes.UNAUTHORIZED).json({
+				success: false,
+				error: "Unauthorized",
+			});
+			return;
+		}
+
+		// biome-ignore lint/style/noNonNullAssertion: It must exist when this route is used
+		const showId = parseInt(req.params.showId!, 10);
+		// biome-ignore lint/style/noNonNullAssertion: It must exist when this route is used
+		const seasonNumber = parseInt(req.params.season!, 10);
+		// biome-ignore lint/style/noNonNullAssertion: It must exist when this route is used
+		const episodeNumber = parseInt(req.params.episode!, 10);
+
+		if (
+			Number.isNaN(showId) ||
+			Number.isNaN(seasonNumber) ||
+			Number.isNaN(episodeNumber) ||
+			seasonNumber < 0 ||
+			episodeNumber < 1
+		) {
+			res.status(StatusCodes.BAD_REQUEST).json({
+				success: false,
+				error: "Invalid show, season, or episode number",
+			});
+			return;
+		}
+
+		const { duration, completed } = req.body;
+
+		if (
+			duration !== undefined &&
+			(typeof duration !== "number" || duration < 0)
+		) {
+			res.status(StatusCodes.BAD_REQUEST).json({
+				success: false,
+				error: "duration must be a positive number of seconds",
+			});
+			return;
+		}
+
+		if (completed !== undefined && typeof completed !== "boolean") {
+			res.status(StatusCodes.BAD_REQUEST).json({
+				success: false,
+				error: "completed must be a boolean",
+			});
+			return;
+		}
+
+		const profile = getActiveProfile(req);
+
+		const progress = await prisma.showProgress.upsert({
+			where: {
+				profileId_tmdbShowId_seasonNumber_episodeNumber: {
+					profileId: profile.id,
+					tmdbShowId: showId,
+					seasonNumber,
+					episodeNumber,
+				},
+			},
+			create: {
+				userId: profile.userId,
+				profileId: profile.id,
+				tmdbShowId: showId,
+				seasonNumber,
+				episodeNumber,
+				duration: duration !== undefined ? Math.floor(duration) : null,
+				completed: completed === true,
+			},
+			update: {
+				...(duration !== undefined && { duration: Math.floor(duration) }),
+				...(completed !== undefined && { completed }),
+				watchedAt: new Date(),
+			},
+		});
+
+		res.json({
+			success: true,
+			message: "Episode progress saved successfully",
+			data: progress,
+		});
+	} catch (error) {
+		logger.error(error, "Error in updateEpisodeProgress:");
+		res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+			success: false,
+			error: "Failed to save episode progress",
+		});
+	}
+};
+
+/**
+ * Mark a Whole Season as Watched
+ * Example: POST /api/progress/1396/season/1/watched
+ */
+export const markSeasonWatched = async (
+	req: Request,
+	res: Response,
+): Promise<void> => {
+	try {
+		const clerkUserId = req.auth?.userId;
+
+		if (!clerkUserId) {
+			res.status(StatusCodes.UNAUTHORIZED).json({
+				success: false,
+				error: "Unauthorized",
+			});
+			return;
+		}
+
+		// biome-ignore lint/style/noNonNullAssertion: It must exist when this route is used
+		const showId = parseInt(req.params.showId!, 10);
+		// biome-ignore lint/style/noNonNullAssertion: It must exist when this route is used
+		const seasonNumber = parseInt(req.params.season!, 10);
+
+		if (Number.isNaN(showId) || Number.isNaN(seasonNumber)) {
+			res.status(StatusCodes.BAD_REQUEST).json({
+				success: false,
+				error: "Invalid show or season number",
+			});
+			return;
+		}
+
+		const profile = getActiveProfile(req);
+		const show = await tmdbService.getTVShowDetails(showId);
+
+		const season = show.seasons.find((s) => s.season_number === seasonNumber);
+
+		if (!season) {
+			res.status(StatusCodes.NOT_FOUND).json({
+				success: false,
+				error: "Season not found",
+			});
+			return;
+		}
+
+		const episodes = Array.from({ length: season.episode_count }, (_, i) => ({
+			seasonNumber,
+			episodeNumber: i + 1,
+		}));
+
+		const marked = await markEpisodesWatched(profile, showId, episodes);
+
+		res.json({
+			success: true,
+			message: "Season marked as watched",
+			data: { tmdbShowId: showId, seasonNumber, episodesMarked: marked },
+		});
+	} catch (error) {
+		logger.error(error, "Error in markSeasonWatched:");
+		res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+			success: false,
+			error: "Failed to mark season as watched",
+		});
+	}
+};
+
+/**
+ * Mark an Entire Show as Watched
+ * Example: POST /api/progress/1396/watched
+ *
+ * Specials (season 0) are skipped since most people never watch them.
+ */
+export const markShowWatched = async (
+	req: Request,
+	res: Response,
+): Promise<void> => {
+	try {
+		const clerkUserId = req.auth?.userId;
+
+		if (!clerkUserId) {
+			res.status(StatusCodes.UNAUTHORIZED).json({
+				success: false,
+				error: "Unauthorized",
+			});
+			return;
+		}
+
+		// biome-ignore lint/style/noNonNullAssertion: It must exist when this route is used
+		const showId = parseInt(req.params.showId!, 10);
+
+		if (Number.isNaN(showId)) {
+			res.status(StatusCodes.BAD_REQUEST).json({
+				success: false,
+				error: "Invalid TV show ID",
+			});
+			return;
+		}
+
+		const profile = getActiveProfile(req);
+		const show = await tmdbService.getTVShowDetails(showId);
+
+		const episodes = show.seasons
+			.filter((season) => season.season_number > 0)
+			.flatMap((season) =>
+				Array.from({ length: season.episode_count }, (_, i) => ({
+					seasonNumber: season.season_number,
+					episodeNumber: i + 1,
+				})),
+			);
+
+		const marked = await markEpisodesWatched(profile, showId, episodes);
+
+		res.json({
+			success: true,
+			message: "Show marked as watched",
+			data: { tmdbShowId: showId, episodesMarked: marked },
+		});
+	} catch (error) {
+		logger.error(error, "Error in markShowWatched:");
+		res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+			success: false,
+			error: "Failed to mark show as watched",
+		});
+	}
+};
@@ -0,0 +1,123 @@
+import type { Request, Response } from "express";
+import { StatusCodes } from "http-status-codes";
+import { formatZodIssues } from "../schemas/common.schema.js";
+import {
+	searchQuerySchema,
+	suggestQuerySchema,
+} from "../schemas/search.schema.js";
+import { isRestrictedProfile } from "../services/restriction.service.js";
+import { getSuggestions, searchAll } from "../services/search.service.js";
+import { resolveLanguage } from "../utils/locale.js";
+import logger from "../utils/logger.js";
+import { resolveMixedContentRestrictions } from "../utils/maturity.js";
+import { attachUserState } from "../utils/userState.js";
+
+/**
+ * Search Controllers
+ *
+ * One search box, one request. These controllers search movies,
+ * TV shows and people together and return them in a single list.
+ */
+
+/**
+ * Search Everything
+ * Example: GET /api/search?query=matrix&page=1&include_adult=false
+ *
+ * Add maxMaturity (e.g. maxMaturity=13%2B) to hide titles rated above that level.
+ * The viewing profile's restrictions always apply, as on the movie and TV routes.
+ * Add withUserState=true to mark titles already in the watchlist, favorites etc.
+ */
+export const searchContent = async (
+	req: Request,
+	res: Response,
+): Promise<void> => {
+	try {
+		const parsed = searchQuerySchema.safeParse(req.query);
+
+		if (!parsed.success) {
+			res.status(StatusCodes.BAD_REQUEST).json({
+				success: false,
+				error: "Invalid search query",
+				details: formatZodIssues(parsed.error),
+			});
+			return;
+		}
+
+		const { query, page, include_adult: includeAdult } = parsed.data;
+
+		const results = await searchAll(query, {
+			page,
+			// Restricted profiles never get adult titles, whatever they ask for
+			includeAdult: includeAdult && !isRestrictedProfile(req.profile),
+			language: resolveLanguage(req),
+			restrictions: resolveMixedContentRestrictions(req),
+		});
+
+		res.json({
+			success: true,
+			data: await attachUserState(req, results, (item) =>
+				item.mediaType === "person" ? null : item.mediaType,
+			),
+		});
+	} catch (error) {
+		logger.error(error, "Error in searchContent:");
+		res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+			success: false,
+			error: "Failed to search",
+		});
+	}
+};
+
+/**
+ * Search Suggestions (type-ahead)
+ * Example: GET /api/search/suggest?q=mat&limit=8
+ *
+ * Returns a short list of titles for a search box dropdown.
+ * Queries shorter than 2 characters return an empty list without hitting TMDB.
+ * Titles the viewing profile isn't allowed to see are left out.
+ */
+export const getSearchSuggestions = async (
+	req: Request,
+	res: Response,
+): Promise<void> => {
+	try {
+		const parsed = suggestQuerySchema.safeParse(req.query);
+
+		if (!parsed.success) {
+			res.status(StatusCodes.BAD_REQUEST).json({
+				success: false,
+				error: "Invalid query",
+				details: formatZodIssues(parsed.error),
+			});
+			return;
+		}
+
+		const { q, limit } = parsed.data;
+
+		if (q.length < 2) {
+			res.json({
+				success: true,
+				data: [],
+			});
+			return;
+		}
+
+		const suggestions = await getSuggestions(
+			q,
+			limit,
+			resolveLanguage(req),
+			resolveMixedContentRestrictions(req),
+		);
+
+		res.json({
+			success: true,
+			data: suggestions,
+		});
+	} catch (error) {
+		logger.error(error, "Error in getSearchSuggestions:");
+		res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+			success: false,
+			error: "Failed to fetch search suggestions",
+		});
+	}
+};
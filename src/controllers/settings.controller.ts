@@ -0,0 +1,101 @@
+import type { Request, Response } from "express";
+import { StatusCodes } from "http-status-codes";
+import { formatZodIssues } from "../schemas/common.schema.js";
+import { updateSettingsSchema } from "../schemas/settings.schema.js";
+import {
+	getUserSettings,
+	updateUserSettings,
+} from "../services/settings.service.js";
+import { findOrCreateUser } from "../services/user.service.js";
+import logger from "../utils/logger.js";
+
+/**
+ * Settings Controllers
+ *
+ * Read and change the account's preferences. Settings apply to the whole
+ * account, across all of its profiles.
+ */
+
+/**
+ * Get Settings
+ * Example: GET /api/user/settings
+ */
+export const getSettings = async (
+	req: Request,
+	res: Response,
+): Promise<void> => {
+	try {
+		const clerkUserId = req.auth?.userId;
+
+		if (!clerkUserId) {
+			res.status(StatusCodes.UNAUTHORIZED).json({
+				success: false,
+				error: "Unauthorized",
+			});
+			return;
+		}
+
+		const user = await findOrCreateUser(clerkUserId);
+		const settings = await getUserSettings(user.id);
+
+		res.json({
+			success: true,
+			data: settings,
+		});
+	} catch (error) {
+		logger.error(error, "Error in getSettings:");
+		res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+			success: false,
+			error: "Failed to fetch settings",
+		});
+	}
+};
+
+/**
+ * Update Settings
+ * Example: PATCH /api/user/settings
+ *
+ * Body: any of the settings fields; the rest are left as they are
+ */
+export const updateSettings = async (
+	req: Request,
+	res: Response,
+): Promise<void> => {
+	try {
+		const clerkUserId = req.auth?.userId;
+
+		if (!clerkUserId) {
+			res.status(StatusCodes.UNAUTHORIZED).json({
+				success: false,
+				error: "Unauthorized",
+			});
+			return;
+		}
+
+		const body = updateSettingsSchema.safeParse(req.body);
+
+		if (!body.success) {
+			res.status(StatusCodes.BAD_REQUEST).json({
+				success: false,
+				error: "Invalid settings",
+				details: formatZodIssues(body.error),
+			});
+			return;
+		}
+
+		const user = await findOrCreateUser(clerkUserId);
+		const settings = await updateUserSettings(user.id, body.data);
+
+		res.json({
+			success: true,
+			message: "Settings updated successfully",
+			data: settings,
+		});
+	} catch (error) {
+		logger.error(error, "Error in updateSettings:");
+		res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+			success: false,
+			error: "Failed to update settings",
+		});
+	}
+};
@@ -0,0 +1,185 @@
+import type { Request, Response } from "express";
+import { StatusCodes } from "http-status-codes";
+import { getActiveProfile } from "../middleware/profile.middleware.js";
+import { formatZodIssues } from "../schemas/common.schema.js";
+import { browseSharedQuerySchema } from "../schemas/share.schema.js";
+import { filterRestrictedTitles } from "../services/restriction.service.js";
+import {
+	browsePublicCollections,
+	copySharedToWatchlist,
+	describeSharedSource,
+	findSharedSource,
+	getSharedItems,
+	hasSavedSharedSource,
+} from "../services/share.service.js";
+import logger from "../utils/logger.js";
+import { resolveMixedContentRestrictions } from "../utils/maturity.js";
+
+/**
+ * Shared Collection Controllers
+ *
+ * Read-only access to lists and watchlists their owners have shared by
+ * link. Anyone can read them, logged in or not; copying one into your
+ * own watchlist needs an account.
+ *
+ * The viewer's profile restrictions still apply: titles a kids or
+ * maturity-limited profile can't see are left out.
+ */
+
+/**
+ * Browse Public Lists or Watchlists
+ * Example: GET /api/shared?type=list&limit=20&cursor=abc
+ *
+ * Only "public" collections are listed, most saved first.
+ * Unlisted ones can only be opened with their link.
+ */
+export const browseShared = async (
+	req: Request,
+	res: Response,
+): Promise<void> => {
+	try {
+		const query = browseSharedQuerySchema.safeParse(req.query);
+
+		if (!query.success) {
+			res.status(StatusCodes.BAD_REQUEST).json({
+				success: false,
+				error: "Invalid query",
+				details: formatZodIssues(query.error),
+			});
+			return;
+		}
+
+		const { type, limit, cursor } = query.data;
+		const { data, nextCursor } = await browsePublicCollections(
+			type,
+			limit,
+			cursor,
+		);
+
+		res.json({
+			success: true,
+			data,
+			pagination: {
+				limit,
+				hasMore: nextCursor !== null,
+				nextCursor,
+			},
+		});
+	} catch (error) {
+		logger.error(error, "Error in browseShared:");
+		res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+			success: false,
+			error: "Failed to fetch shared collections",
+		});
+	}
+};
+
+/**
+ * Open a Share Link
+ * Example: GET /api/shared/q3U0b1n4Zq9yS0bT4mE2fA
+ *
+ * Private collections and unknown links both return 404, so a link
+ * doesn't reveal whether it used to work.
+ */
+export const getShared = async (req: Request, res: Response): Promise<void> => {
+	try {
+		// biome-ignore lint/style/noNonNullAssertion: It must exist when this route is used
+		const source = await findSharedSource(req.params.slug!);
+
+		if (!source) {
+			res.status(StatusCodes.NOT_FOUND).json({
+				success: false,
+				error: "Shared list not found",
+			});
+			return;
+		}
+
+		const [collection, items, savedByMe] = await Promise.all([
+			describeSharedSource(source),
+			getSharedItems(source).then((items) =>
+				filterRestrictedTitles(items, resolveMixedContentRestrictions(req)),
+			),
+			req.profile
+				? hasSavedSharedSource(source, req.profile.id)
+				: Promise.resolve(false),
+		]);
+
+		res.json({
+			success: true,
+			data: {
+				...collection,
+				isOwner: req.profile?.id === source.owner.id,
+				savedByMe,
+				items,
+			},
+		});
+	} catch (error) {
+		logger.error(error, "Error in getShared:");
+		res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+			success: false,
+			error: "Failed to fetch shared list",
+		});
+	}
+};
+
+/**
+ * Copy a Shared Collection to My Watchlist
+ * Example: POST /api/shared/q3U0b1n4Zq9yS0bT4mE2fA/copy
+ *
+ * Titles already on the watchlist, or not allowed on the profile, are skipped.
+ */
+export const copyShared = async (
+	req: Request,
+	res: Response,
+): Promise<void> => {
+	try {
+		const clerkUserId = req.auth?.userId;
+
+		if (!clerkUserId) {
+			res.status(StatusCodes.UNAUTHORIZED).json({
+				success: false,
+				error: "Unauthorized",
+			});
+			return;
+		}
+
+		// biome-ignore lint/style/noNonNullAssertion: It must exist when this route is used
+		const source = await findSharedSource(req.params.slug!);
+
+		if (!source) {
+			res.status(StatusCodes.NOT_FOUND).json({
+				success: false,
+				error: "Shared list not found",
+			});
+			return;
+		}
+
+		const profile = getActiveProfile(req);
+
+		if (source.type === "watchlist" && source.owner.id === profile.id) {
+			res.status(StatusCodes.BAD_REQUEST).json({
+				success: false,
+				error: "This is already your watchlist",
+			});
+			return;
+		}
+
+		const result = await copySharedToWatchlist(
+			source,
+			profile,
+			resolveMixedContentRestrictions(req),
+		);
+
+		res.json({
+			success: true,
+			message: "Copied to watchlist successfully",
+			data: result,
+		});
+	} catch (error) {
+		logger.error(error, "Error in copyShared:");
+		res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+			success: false,
+			error: "Failed to copy to watchlist",
+		});
+	}
+};
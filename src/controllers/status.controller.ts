@@ -0,0 +1,63 @@
+import type { Request, Response } from "express";
+import { StatusCodes } from "http-status-codes";
+import { getActiveProfile } from "../middleware/profile.middleware.js";
+import { formatZodIssues } from "../schemas/common.schema.js";
+import { titleStatusSchema } from "../schemas/status.schema.js";
+import { getTitleStatuses } from "../services/status.service.js";
+import logger from "../utils/logger.js";
+
+/**
+ * Library Status Controllers
+ *
+ * One request to decorate a whole row of posters, instead of a watchlist
+ * check and a favorites check per poster.
+ */
+
+/**
+ * Check Many Titles at Once
+ * Example: POST /api/status
+ *
+ * Body: { items: [{ tmdbId: 550, contentType: "movie" }, ...] }
+ * Returns one status per item, in the same order.
+ */
+export const getBatchStatus = async (
+	req: Request,
+	res: Response,
+): Promise<void> => {
+	try {
+		const clerkUserId = req.auth?.userId;
+
+		if (!clerkUserId) {
+			res.status(StatusCodes.UNAUTHORIZED).json({
+				success: false,
+				error: "Unauthorized",
+			});
+			return;
+		}
+
+		const body = titleStatusSchema.safeParse(req.body);
+
+		if (!body.success) {
+			res.status(StatusCodes.BAD_REQUEST).json({
+				success: false,
+				error: "Invalid items",
+				details: formatZodIssues(body.error),
+			});
+			return;
+		}
+
+		const profile = getActiveProfile(req);
+		const statuses = await getTitleStatuses(profile.id, body.data.items);
+
+		res.json({
+			success: true,
+			data: statuses,
+		});
+	} catch (error) {
+		logger.error(error, "Error in getBatchStatus:");
+		res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+			success: false,
+			error: "Failed to check status",
+		});
+	}
+};
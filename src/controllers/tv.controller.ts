@@ -1,7 +1,25 @@
 import type { Request, Response } from "express";
 import { StatusCodes } from "http-status-codes";
+import { formatZodIssues } from "../schemas/common.schema.js";
+import {
+	tvDiscoverSchema,
+	withoutSharedParams,
+} from "../schemas/discover.schema.js";
+import { getCertification } from "../services/certification.service.js";
+import {
+	getProviderCatalog,
+	getTitleWatchProviders,
+} from "../services/provider.service.js";
+import { applyContentRestrictions } from "../services/restriction.service.js";
 import { tmdbService } from "../services/tmdb.service.js";
+import {
+	parseRegion,
+	resolveLanguage,
+	resolveRegion,
+} from "../utils/locale.js";
 import logger from "../utils/logger.js";
+import { resolveContentRestrictions } from "../utils/maturity.js";
+import { attachUserState } from "../utils/userState.js";
 
 /**
  * TV Show Controllers
@@ -17,11 +35,20 @@ export const getTrendingTVShows = async (
 ): Promise<void> => {
 	try {
 		const timeWindow = (req.query.timeWindow as "day" | "week") || "week";
-		const shows = await tmdbService.getTrending("tv", timeWindow);
+		const shows = await applyContentRestrictions(
+			"tv",
+			await tmdbService.getTrending(
+				"tv",
+				timeWindow,
+				resolveLanguage(req),
+				resolveRegion(req),
+			),
+			resolveContentRestrictions(req, "tv"),
+		);
 
 		res.json({
 			success: true,
-			data: shows,
+			data: await attachUserState(req, shows, "tv"),
 		});
 	} catch (error) {
 		logger.error(error, "Error in getTrendingTVShows:");
@@ -38,11 +65,20 @@ export const getPopularTVShows = async (
 ): Promise<void> => {
 	try {
 		const page = parseInt(req.query.page as string, 10) || 1;
-		const shows = await tmdbService.getPopular("tv", page);
+		const shows = await applyContentRestrictions(
+			"tv",
+			await tmdbService.getPopular(
+				"tv",
+				page,
+				resolveLanguage(req),
+				resolveRegion(req),
+			),
+			resolveContentRestrictions(req, "tv"),
+		);
 
 		res.json({
 			success: true,
-			data: shows,
+			data: await attachUserState(req, shows, "tv"),
 		});
 	} catch (error) {
 		logger.error(error, "Error in getPopularTVShows:");
@@ -59,11 +95,20 @@ export const getTopRatedTVShows = async (
 ): Promise<void> => {
 	try {
 		const page = parseInt(req.query.page as string, 10) || 1;
-		const shows = await tmdbService.getTopRated("tv", page);
+		const shows = await applyContentRestrictions(
+			"tv",
+			await tmdbService.getTopRated(
+				"tv",
+				page,
+				resolveLanguage(req),
+				resolveRegion(req),
+			),
+			resolveContentRestrictions(req, "tv"),
+		);
 
 		res.json({
 			success: true,
-			data: shows,
+			data: await attachUserState(req, shows, "tv"),
 		});
 	} catch (error) {
 		logger.error(error, "Error in getTopRatedTVShows:");
@@ -90,11 +135,14 @@ export const getTVShowDetails = async (
 			return;
 		}
 
-		const show = await tmdbService.getTVShowDetails(showId);
+		const [show, certification] = await Promise.all([
+			tmdbService.getTVShowDetails(showId, resolveLanguage(req)),
+			getCertification("tv", showId, resolveRegion(req)),
+		]);
 
 		res.json({
 			success: true,
-			data: show,
+			data: { ...show, certification },
 		});
 	} catch (error) {
 		logger.error(error, "Error in getTVShowDetails:");
@@ -121,7 +169,11 @@ export const getTVShowCredits = async (
 			return;
 		}
 
-		const credits = await tmdbService.getCredits("tv", showId);
+		const credits = await tmdbService.getCredits(
+			"tv",
+			showId,
+			resolveLanguage(req),
+		);
 
 		res.json({
 			success: true,
@@ -152,7 +204,11 @@ export const getTVShowVideos = async (
 			return;
 		}
 
-		const videos = await tmdbService.getVideos("tv", showId);
+		const videos = await tmdbService.getVideos(
+			"tv",
+			showId,
+			resolveLanguage(req),
+		);
 
 		res.json({
 			success: true,
@@ -184,11 +240,15 @@ export const getSimilarTVShows = async (
 			return;
 		}
 
-		const shows = await tmdbService.getSimilar("tv", showId, page);
+		const shows = await applyContentRestrictions(
+			"tv",
+			await tmdbService.getSimilar("tv", showId, page, resolveLanguage(req)),
+			resolveContentRestrictions(req, "tv"),
+		);
 
 		res.json({
 			success: true,
-			data: shows,
+			data: await attachUserState(req, shows, "tv"),
 		});
 	} catch (error) {
 		logger.error(error, "Error in getSimilarTVShows:");
@@ -216,11 +276,20 @@ export const getTVShowRecommendations = async (
 			return;
 		}
 
-		const shows = await tmdbService.getRecommendations("tv", showId, page);
+		const shows = await applyContentRestrictions(
+			"tv",
+			await tmdbService.getRecommendations(
+				"tv",
+				showId,
+				page,
+				resolveLanguage(req),
+			),
+			resolveContentRestrictions(req, "tv"),
+		);
 
 		res.json({
 			success: true,
-			data: shows,
+			data: await attachUserState(req, shows, "tv"),
 		});
 	} catch (error) {
 		logger.error(error, "Error in getTVShowRecommendations:");
@@ -247,11 +316,15 @@ export const searchTVShows = async (
 			return;
 		}
 
-		const shows = await tmdbService.search(query, "tv", page);
+		const shows = await applyContentRestrictions(
+			"tv",
+			await tmdbService.search(query, "tv", page, resolveLanguage(req)),
+			resolveContentRestrictions(req, "tv"),
+		);
 
 		res.json({
 			success: true,
-			data: shows,
+			data: await attachUserState(req, shows, "tv"),
 		});
 	} catch (error) {
 		logger.error(error, "Error in searchTVShows:");
@@ -267,18 +340,34 @@ export const discoverTVShows = async (
 	res: Response,
 ): Promise<void> => {
 	try {
-		const filters = {
-			with_genres: req.query.with_genres as string,
-			year: parseInt(req.query.year as string, 10),
-			sort_by: (req.query.sort_by as string) || "popularity.desc",
-			page: parseInt(req.query.page as string, 10) || 1,
-		};
+		const filters = tvDiscoverSchema.safeParse(withoutSharedParams(req.query));
 
-		const shows = await tmdbService.discover("tv", filters);
+		if (!filters.success) {
+			res.status(StatusCodes.BAD_REQUEST).json({
+				success: false,
+				error: "Invalid discover filters",
+				details: formatZodIssues(filters.error),
+			});
+			return;
+		}
+
+		const restrictions = resolveContentRestrictions(req, "tv");
+		const shows = await applyContentRestrictions(
+			"tv",
+			await tmdbService.discover(
+				"tv",
+				// Kids profiles never get adult titles, whatever the filters say
+				restrictions?.hideAdult
+					? { ...filters.data, include_adult: false }
+					: filters.data,
+				resolveLanguage(req),
+			),
+			restrictions,
+		);
 
 		res.json({
 			success: true,
-			data: shows,
+			data: await attachUserState(req, shows, "tv"),
 		});
 	} catch (error) {
 		logger.error(error, "Error in discoverTVShows");
@@ -290,11 +379,11 @@ export const discoverTVShows = async (
 };
 
 export const getTVShowGenres = async (
-	_req: Request,
+	req: Request,
 	res: Response,
 ): Promise<void> => {
 	try {
-		const genres = await tmdbService.getGenres("tv");
+		const genres = await tmdbService.getGenres("tv", resolveLanguage(req));
 
 		res.json({
 			success: true,
@@ -308,3 +397,182 @@ export const getTVShowGenres = async (
 		});
 	}
 };
+
+/**
+ * Get TV Season Details
+ * Example: GET /api/tv/1396/season/1
+ */
+export const getTVSeasonDetails = async (
+	req: Request,
+	res: Response,
+): Promise<void> => {
+	try {
+		// biome-ignore lint/style/noNonNullAssertion: It must exist when this route is used
+		const showId = parseInt(req.params.id!, 10);
+		// biome-ignore lint/style/noNonNullAssertion: It must exist when this route is used
+		const seasonNumber = parseInt(req.params.season!, 10);
+
+		if (
+			Number.isNaN(showId) ||
+			Number.isNaN(seasonNumber) ||
+			seasonNumber < 0
+		) {
+			res.status(StatusCodes.BAD_REQUEST).json({
+				success: false,
+				error: "Invalid TV show ID or season number",
+			});
+			return;
+		}
+
+		const season = await tmdbService.getSeasonDetails(
+			showId,
+			seasonNumber,
+			resolveLanguage(req),
+		);
+
+		res.json({
+			success: true,
+			data: season,
+		});
+	} catch (error) {
+		logger.error(error, "Error in getTVSeasonDetails:");
+		res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+			success: false,
+			error: "Failed to fetch TV season details",
+		});
+	}
+};
+
+/**
+ * Get TV Episode Details
+ * Example: GET /api/tv/1396/season/1/episode/1
+ */
+export const getTVEpisodeDetails = async (
+	req: Request,
+	res: Response,
+): Promise<void> => {
+	try {
+		// biome-ignore lint/style/noNonNullAssertion: It must exist when this route is used
+		const showId = parseInt(req.params.id!, 10);
+		// biome-ignore lint/style/noNonNullAssertion: It must exist when this route is used
+		const seasonNumber = parseInt(req.params.season!, 10);
+		// biome-ignore lint/style/noNonNullAssertion: It must exist when this route is used
+		const episodeNumber = parseInt(req.params.episode!, 10);
+
+		if (
+			Number.isNaN(showId) ||
+			Number.isNaN(seasonNumber) ||
+			Number.isNaN(episodeNumber) ||
+			seasonNumber < 0 ||
+			episodeNumber < 1
+		) {
+			res.status(StatusCodes.BAD_REQUEST).json({
+				success: false,
+				error: "Invalid TV show ID, season, or episode number",
+			});
+			return;
+		}
+
+		const episode = await tmdbService.getEpisodeDetails(
+			showId,
+			seasonNumber,
+			episodeNumber,
+			resolveLanguage(req),
+		);
+
+		res.json({
+			success: true,
+			data: episode,
+		});
+	} catch (error) {
+		logger.error(error, "Error in getTVEpisodeDetails:");
+		res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+			success: false,
+			error: "Failed to fetch TV episode details",
+		});
+	}
+};
+
+/**
+ * Get TV Show Watch Providers
+ * Example: GET /api/tv/1396/providers?region=GB
+ *
+ * Region defaults to the Accept-Language header, then "US".
+ */
+export const getTVShowWatchProviders = async (
+	req: Request,
+	res: Response,
+): Promise<void> => {
+	try {
+		// biome-ignore lint/style/noNonNullAssertion: The id must be provided when using this route
+		const showId = parseInt(req.params.id!, 10);
+
+		if (Number.isNaN(showId)) {
+			res.status(StatusCodes.BAD_REQUEST).json({
+				success: false,
+				error: "Invalid TV show ID",
+			});
+			return;
+		}
+
+		if (req.query.region !== undefined && !parseRegion(req.query.region)) {
+			res.status(StatusCodes.BAD_REQUEST).json({
+				success: false,
+				error: "region must be a two-letter country code like 'US'",
+			});
+			return;
+		}
+
+		const providers = await getTitleWatchProviders(
+			"tv",
+			showId,
+			resolveRegion(req),
+		);
+
+		res.json({
+			success: true,
+			data: providers,
+		});
+	} catch (error) {
+		logger.error(error, "Error in getTVShowWatchProviders:");
+		res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+			success: false,
+			error: "Failed to fetch TV show watch providers",
+		});
+	}
+};
+
+/**
+ * Get TV Show Watch Provider Catalog
+ * Example: GET /api/tv/providers?region=GB
+ *
+ * Lists every provider in a region, for building provider filters.
+ */
+export const getTVProviderCatalog = async (
+	req: Request,
+	res: Response,
+): Promise<void> => {
+	try {
+		if (req.query.region !== undefined && !parseRegion(req.query.region)) {
+			res.status(StatusCodes.BAD_REQUEST).json({
+				success: false,
+				error: "region must be a two-letter country code like 'US'",
+			});
+			return;
+		}
+
+		const region = resolveRegion(req);
+		const providers = await getProviderCatalog("tv", region);
+
+		res.json({
+			success: true,
+			data: { region, providers },
+		});
+	} catch (error) {
+		logger.error(error, "Error in getTVProviderCatalog:");
+		res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+			success: false,
+			error: "Failed to fetch TV show provider catalog",
+		});
+	}
+};
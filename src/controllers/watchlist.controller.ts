@@ -1,7 +1,27 @@
 import type { Request, Response } from "express";
 import { StatusCodes } from "http-status-codes";
 import prisma from "../config/prisma.js";
-import { findOrCreateUser } from "../services/user.service.js";
+import { getActiveProfile } from "../middleware/profile.middleware.js";
+import { formatZodIssues } from "../schemas/common.schema.js";
+import { updateSharingSchema } from "../schemas/share.schema.js";
+import {
+	reorderWatchlistSchema,
+	updateWatchlistItemSchema,
+	watchlistQuerySchema,
+} from "../schemas/watchlist.schema.js";
+import {
+	getWatchlistSharing,
+	updateWatchlistSharing,
+} from "../services/share.service.js";
+import {
+	decodeWatchlistCursor,
+	editWatchlistItem,
+	fetchTitleMetadata,
+	nextWatchlistPosition,
+	queryWatchlist,
+	removeWatchlistItem,
+	reorderWatchlist,
+} from "../services/watchlist.service.js";
 import logger from "../utils/logger.js";
 
 /**
@@ -17,7 +37,11 @@ import logger from "../utils/logger.js";
 
 /**
  * Get User's Watchlist
- * Returns all movies and TV shows the user has saved
+ * Example: GET /api/watchlist?sort=rating&contentType=movie&genre=28,12&watched=false&limit=20&cursor=abc
+ *
+ * Returns one page of the movies and TV shows the user has saved, newest
+ * first unless another sort is picked. Pass the returned nextCursor back
+ * as `cursor` to fetch the next page.
  */
 export const getWatchlist = async (
 	req: Request,
@@ -34,22 +58,54 @@ export const getWatchlist = async (
 			return;
 		}
 
-		// Ensure user exists in our database
-		const user = await findOrCreateUser(clerkUserId);
+		const query = watchlistQuerySchema.safeParse(req.query);
 
-		// Fetch all watchlist items for this user
-		const watchlist = await prisma.watchlist.findMany({
-			where: {
-				userId: user.id,
-			},
-			orderBy: {
-				addedAt: "desc", // Most recently added first
-			},
+		if (!query.success) {
+			res.status(StatusCodes.BAD_REQUEST).json({
+				success: false,
+				error: "Invalid query",
+				details: formatZodIssues(query.error),
+			});
+			return;
+		}
+
+		const { sort, order, limit, contentType, genre, watched, tag } = query.data;
+		const cursor = query.data.cursor
+			? decodeWatchlistCursor(query.data.cursor, sort)
+			: undefined;
+
+		// Cursors only make sense for the sort they were made with
+		if (cursor === null) {
+			res.status(StatusCodes.BAD_REQUEST).json({
+				success: false,
+				error: "Invalid cursor",
+			});
+			return;
+		}
+
+		const profile = getActiveProfile(req);
+
+		const page = await queryWatchlist(profile.id, {
+			sort,
+			order,
+			limit,
+			cursor,
+			contentType,
+			genreIds: genre,
+			watched,
+			tag,
 		});
 
 		res.json({
 			success: true,
-			data: watchlist,
+			data: page.items,
+			pagination: {
+				limit,
+				hasMore: page.nextCursor !== null,
+				nextCursor: page.nextCursor,
+				total: page.total,
+			},
+			totals: page.totals,
 		});
 	} catch (error) {
 		logger.error(error, "Error in getWatchlist:");
@@ -99,13 +155,13 @@ export const addToWatchlist = async (
 			return;
 		}
 
-		const user = await findOrCreateUser(clerkUserId);
+		const profile = getActiveProfile(req);
 
 		// Check if this item is already in the watchlist
 		const existing = await prisma.watchlist.findUnique({
 			where: {
-				userId_tmdbId_contentType: {
-					userId: user.id,
+				profileId_tmdbId_contentType: {
+					profileId: profile.id,
 					tmdbId: parseInt(tmdbId, 10),
 					contentType,
 				},
@@ -121,17 +177,29 @@ export const addToWatchlist = async (
 			return;
 		}
 
-		// Add the item to the watchlist
-		const watchlistItem = await prisma.watchlist.create({
-			data: {
-				userId: user.id,
-				tmdbId: parseInt(tmdbId, 10),
-				contentType,
-				title,
-				posterPath: posterPath || null,
-				note: note || null,
-			},
-		});
+		// Keep a copy of the rating, release date and genres for sorting and filtering
+		const metadata = await fetchTitleMetadata(
+			parseInt(tmdbId, 10),
+			contentType,
+		);
+
+		// Add the item to the end of the watchlist. The position is worked
+		// out in the same transaction, so concurrent adds can't share one.
+		const watchlistItem = await prisma.$transaction(async (tx) =>
+			tx.watchlist.create({
+				data: {
+					userId: profile.userId,
+					profileId: profile.id,
+					tmdbId: parseInt(tmdbId, 10),
+					contentType,
+					title,
+					posterPath: posterPath || null,
+					note: note || null,
+					position: await nextWatchlistPosition(tx, profile.id),
+					...metadata,
+				},
+			}),
+		);
 
 		res.status(StatusCodes.CREATED).json({
 			success: true,
@@ -147,6 +215,144 @@ export const addToWatchlist = async (
 	}
 };
 
+/**
+ * Edit a Watchlist Item
+ * Example: PATCH /api/watchlist/:id
+ *
+ * Body: any of { note, position, tags, watchBy }
+ * Send null to clear the note or watchBy date. Moving an item to a new
+ * position shifts the items in between.
+ */
+export const updateWatchlistItem = async (
+	req: Request,
+	res: Response,
+): Promise<void> => {
+	try {
+		const clerkUserId = req.auth?.userId;
+
+		if (!clerkUserId) {
+			res.status(StatusCodes.UNAUTHORIZED).json({
+				success: false,
+				error: "Unauthorized",
+			});
+			return;
+		}
+
+		const body = updateWatchlistItemSchema.safeParse(req.body);
+
+		if (!body.success) {
+			res.status(StatusCodes.BAD_REQUEST).json({
+				success: false,
+				error: "Invalid watchlist item",
+				details: formatZodIssues(body.error),
+			});
+			return;
+		}
+
+		// biome-ignore lint/style/noNonNullAssertion: It must exist when this route is used
+		const watchlistId = req.params.id!;
+
+		const profile = getActiveProfile(req);
+
+		const item = await prisma.watchlist.findUnique({
+			where: {
+				id: watchlistId,
+			},
+		});
+
+		if (!item) {
+			res.status(StatusCodes.NOT_FOUND).json({
+				success: false,
+				error: "Watchlist item not found",
+			});
+			return;
+		}
+
+		if (item.profileId !== profile.id) {
+			res.status(StatusCodes.FORBIDDEN).json({
+				success: false,
+				error: "You do not have permission to edit this item",
+			});
+			return;
+		}
+
+		const updated = await editWatchlistItem(item, body.data);
+
+		res.json({
+			success: true,
+			message: "Watchlist item updated successfully",
+			data: updated,
+		});
+	} catch (error) {
+		logger.error(error, "Error in updateWatchlistItem:");
+		res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+			success: false,
+			error: "Failed to update watchlist item",
+		});
+	}
+};
+
+/**
+ * Reorder the Watchlist
+ * Example: PUT /api/watchlist/order
+ *
+ * Body: { itemIds: [...] } - item IDs on the watchlist, in the new order
+ * The items are rearranged among the positions they already hold, and the
+ * rest of the watchlist doesn't move. All positions are rewritten in one
+ * transaction, so a failed reorder leaves the old order intact.
+ */
+export const reorderWatchlistItems = async (
+	req: Request,
+	res: Response,
+): Promise<void> => {
+	try {
+		const clerkUserId = req.auth?.userId;
+
+		if (!clerkUserId) {
+			res.status(StatusCodes.UNAUTHORIZED).json({
+				success: false,
+				error: "Unauthorized",
+			});
+			return;
+		}
+
+		const body = reorderWatchlistSchema.safeParse(req.body);
+
+		if (!body.success) {
+			res.status(StatusCodes.BAD_REQUEST).json({
+				success: false,
+				error: "Invalid order",
+				details: formatZodIssues(body.error),
+			});
+			return;
+		}
+
+		const profile = getActiveProfile(req);
+		const { itemIds } = body.data;
+
+		const reordered = await reorderWatchlist(profile.id, itemIds);
+
+		if (!reordered) {
+			res.status(StatusCodes.BAD_REQUEST).json({
+				success: false,
+				error: "itemIds must only contain items on the watchlist",
+			});
+			return;
+		}
+
+		res.json({
+			success: true,
+			message: "Watchlist reordered successfully",
+		});
+	} catch (error) {
+		logger.error(error, "Error in reorderWatchlistItems:");
+		res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+			success: false,
+			error: "Failed to reorder watchlist",
+		});
+	}
+};
+
 /**
  * Remove Item from Watchlist
  * Removes a movie or TV show from the user's watchlist
@@ -169,7 +375,7 @@ export const removeFromWatchlist = async (
 		// biome-ignore lint/style/noNonNullAssertion: It must exist when this route is used
 		const watchlistId = req.params.id!;
 
-		const user = await findOrCreateUser(clerkUserId);
+		const profile = getActiveProfile(req);
 
 		// Check if the item exists and belongs to this user
 		const item = await prisma.watchlist.findUnique({
@@ -186,7 +392,7 @@ export const removeFromWatchlist = async (
 			return;
 		}
 
-		if (item.userId !== user.id) {
+		if (item.profileId !== profile.id) {
 			res.status(StatusCodes.FORBIDDEN).json({
 				success: false,
 				error: "You do not have permission to remove this item",
@@ -194,12 +400,8 @@ export const removeFromWatchlist = async (
 			return;
 		}
 
-		// Delete the item
-		await prisma.watchlist.delete({
-			where: {
-				id: watchlistId,
-			},
-		});
+		// Delete the item, moving the ones after it up a place
+		await removeWatchlistItem(item);
 
 		res.json({
 			success: true,
@@ -243,12 +445,12 @@ export const checkWatchlistStatus = async (
 			return;
 		}
 
-		const user = await findOrCreateUser(clerkUserId);
+		const profile = getActiveProfile(req);
 
 		const item = await prisma.watchlist.findUnique({
 			where: {
-				userId_tmdbId_contentType: {
-					userId: user.id,
+				profileId_tmdbId_contentType: {
+					profileId: profile.id,
 					tmdbId: parseInt(tmdbId as string, 10),
 					contentType: contentType as string,
 				},
@@ -268,3 +470,88 @@ export const checkWatchlistStatus = async (
 		});
 	}
 };
+
+/**
+ * Get Watchlist Sharing Settings
+ * Example: GET /api/watchlist/sharing
+ */
+export const getWatchlistSharingSettings = async (
+	req: Request,
+	res: Response,
+): Promise<void> => {
+	try {
+		const clerkUserId = req.auth?.userId;
+
+		if (!clerkUserId) {
+			res.status(StatusCodes.UNAUTHORIZED).json({
+				success: false,
+				error: "Unauthorized",
+			});
+			return;
+		}
+
+		const profile = getActiveProfile(req);
+		const sharing = await getWatchlistSharing(profile);
+
+		res.json({
+			success: true,
+			data: sharing,
+		});
+	} catch (error) {
+		logger.error(error, "Error in getWatchlistSharingSettings:");
+		res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+			success: false,
+			error: "Failed to fetch sharing settings",
+		});
+	}
+};
+
+/**
+ * Share the Watchlist
+ * Example: PATCH /api/watchlist/sharing
+ *
+ * Body: { visibility?: "private" | "unlisted" | "public", regenerateLink?: true }
+ * Each profile's watchlist is shared separately.
+ */
+export const updateWatchlistSharingSettings = async (
+	req: Request,
+	res: Response,
+): Promise<void> => {
+	try {
+		const clerkUserId = req.auth?.userId;
+
+		if (!clerkUserId) {
+			res.status(StatusCodes.UNAUTHORIZED).json({
+				success: false,
+				error: "Unauthorized",
+			});
+			return;
+		}
+
+		const body = updateSharingSchema.safeParse(req.body);
+
+		if (!body.success) {
+			res.status(StatusCodes.BAD_REQUEST).json({
+				success: false,
+				error: "Invalid sharing settings",
+				details: formatZodIssues(body.error),
+			});
+			return;
+		}
+
+		const profile = getActiveProfile(req);
+		const sharing = await updateWatchlistSharing(profile, body.data);
+
+		res.json({
+			success: true,
+			message: "Sharing settings updated successfully",
+			data: sharing,
+		});
+	} catch (error) {
+		logger.error(error, "Error in updateWatchlistSharingSettings:");
+		res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+			success: false,
+			error: "Failed to update sharing settings",
+		});
+	}
+};
@@ -0,0 +1,148 @@
+import type { Request, Response } from "express";
+import { StatusCodes } from "http-status-codes";
+import { env } from "../config/env.js";
+import {
+	buildClerkFixture,
+	CLERK_FIXTURE_TYPES,
+	isClerkFixtureType,
+} from "../fixtures/clerkWebhook.fixtures.js";
+import {
+	processClerkEvent,
+	verifySvixSignature,
+} from "../services/webhook.service.js";
+import type { ClerkWebhookEvent } from "../types/webhook.types.js";
+import logger from "../utils/logger.js";
+
+/**
+ * Webhook Controllers
+ *
+ * Endpoints that other services call, rather than our frontend.
+ * They don't use Clerk session tokens; each request is trusted because
+ * of its signature instead.
+ */
+
+/**
+ * Receive a Clerk Webhook
+ * Example: POST /api/webhooks/clerk (called by Clerk via Svix)
+ *
+ * The body arrives as raw bytes (see webhook.routes.ts) because the
+ * signature is computed over the exact payload Clerk sent.
+ */
+export const handleClerkWebhook = async (
+	req: Request,
+	res: Response,
+): Promise<void> => {
+	try {
+		const secret = env.CLERK_WEBHOOK_SECRET;
+
+		if (!secret) {
+			res.status(StatusCodes.SERVICE_UNAVAILABLE).json({
+				success: false,
+				error: "Clerk webhooks are not configured",
+			});
+			return;
+		}
+
+		if (!Buffer.isBuffer(req.body)) {
+			res.status(StatusCodes.BAD_REQUEST).json({
+				success: false,
+				error: "Expected a JSON body",
+			});
+			return;
+		}
+
+		const payload = req.body.toString("utf8");
+		const eventId = req.get("svix-id");
+
+		const verified = verifySvixSignature(
+			payload,
+			{
+				id: eventId,
+				timestamp: req.get("svix-timestamp"),
+				signature: req.get("svix-signature"),
+			},
+			secret,
+		);
+
+		if (!verified || !eventId) {
+			logger.warn(`Rejected Clerk webhook with invalid signature: ${eventId}`);
+			res.status(StatusCodes.UNAUTHORIZED).json({
+				success: false,
+				error: "Invalid webhook signature",
+			});
+			return;
+		}
+
+		let event: ClerkWebhookEvent;
+
+		try {
+			event = JSON.parse(payload) as ClerkWebhookEvent;
+		} catch {
+			res.status(StatusCodes.BAD_REQUEST).json({
+				success: false,
+				error: "Webhook body is not valid JSON",
+			});
+			return;
+		}
+
+		const result = await processClerkEvent(eventId, event);
+
+		res.json({
+			success: true,
+			data: { eventId, type: event.type, result },
+		});
+	} catch (error) {
+		// A non-2xx response makes Svix retry the delivery later
+		logger.error(error, "Error in handleClerkWebhook:");
+		res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+			success: false,
+			error: "Failed to process webhook",
+		});
+	}
+};
+
+/**
+ * Replay a Clerk Fixture (development only)
+ * Example: POST /api/webhooks/clerk/fixtures/user.created
+ *
+ * Body (optional): { eventId?, clerkId?, email?, username? }
+ * Runs a sample event through the same processing as real deliveries,
+ * skipping only the signature check.
+ */
+export const replayClerkFixture = async (
+	req: Request,
+	res: Response,
+): Promise<void> => {
+	try {
+		const { type } = req.params;
+
+		if (!isClerkFixtureType(type)) {
+			res.status(StatusCodes.BAD_REQUEST).json({
+				success: false,
+				error: `Fixture type must be one of: ${CLERK_FIXTURE_TYPES.join(", ")}`,
+			});
+			return;
+		}
+
+		const { eventId, clerkId, email, username } = req.body ?? {};
+		const fixture = buildClerkFixture(type, {
+			...(typeof eventId === "string" && { eventId }),
+			...(typeof clerkId === "string" && { clerkId }),
+			...(typeof email === "string" && { email }),
+			...(typeof username === "string" && { username }),
+		});
+
+		const result = await processClerkEvent(fixture.eventId, fixture.event);
+
+		res.json({
+			success: true,
+			data: { eventId: fixture.eventId, type, result, event: fixture.event },
+		});
+	} catch (error) {
+		logger.error(error, "Error in replayClerkFixture:");
+		res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+			success: false,
+			error: "Failed to replay fixture",
+		});
+	}
+};
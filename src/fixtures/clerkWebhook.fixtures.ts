@@ -0,0 +1,68 @@
+import type {
+	ClerkDeletedObject,
+	ClerkUserData,
+	ClerkWebhookEvent,
+} from "../types/webhook.types.js";
+
+/**
+ * Clerk Webhook Fixtures
+ *
+ * Sample Clerk events for trying the webhook locally without a Clerk
+ * dashboard or a public URL. They're replayed through
+ * POST /api/webhooks/clerk/fixtures/:type, which only exists in development.
+ */
+
+export const CLERK_FIXTURE_TYPES = [
+	"user.created",
+	"user.updated",
+	"user.deleted",
+] as const;
+
+export type ClerkFixtureType = (typeof CLERK_FIXTURE_TYPES)[number];
+
+export interface ClerkFixtureOverrides {
+	// Reuse an id to see duplicate deliveries being skipped
+	eventId?: string;
+	clerkId?: string;
+	email?: string;
+	username?: string;
+}
+
+export const isClerkFixtureType = (value: unknown): value is ClerkFixtureType =>
+	typeof value === "string" &&
+	(CLERK_FIXTURE_TYPES as readonly string[]).includes(value);
+
+/**
+ * Build a fixture event. The default event id is derived from the type and
+ * Clerk id, so replaying the same fixture twice is treated as a retry.
+ */
+export const buildClerkFixture = (
+	type: ClerkFixtureType,
+	overrides: ClerkFixtureOverrides = {},
+): { eventId: string; event: ClerkWebhookEvent } => {
+	const clerkId = overrides.clerkId ?? "user_fixture_123";
+	const eventId = overrides.eventId ?? `msg_fixture_${type}_${clerkId}`;
+
+	const data: ClerkUserData | ClerkDeletedObject =
+		type === "user.deleted"
+			? { id: clerkId, object: "user", deleted: true }
+			: {
+					id: clerkId,
+					email_addresses: [
+						{
+							id: "idn_fixture_primary",
+							email_address: overrides.email ?? "fixture@example.com",
+						},
+					],
+					primary_email_address_id: "idn_fixture_primary",
+					username: overrides.username ?? "fixture_user",
+					first_name: "Fixture",
+					last_name: "User",
+					image_url: null,
+				};
+
+	return {
+		eventId,
+		event: { type, data, object: "event", timestamp: Date.now() },
+	};
+};
@@ -1,5 +1,6 @@
 import app from "./app.js";
 import { env } from "./config/env.js";
+import { startAccountPurgeJob } from "./services/account.service.js";
 import logger from "./utils/logger.js";
 
 const PORT = env.PORT;
@@ -14,6 +15,9 @@ app.listen(PORT, () => {
 		"🚀 Server started successfully",
 	);
 
+	// Hard-delete accounts whose deletion grace period has ended
+	startAccountPurgeJob();
+
 	logger.info(`
   ╔════════════════════════════════════════════════╗
   ║                                                ║
@@ -24,8 +28,10 @@ app.listen(PORT, () => {
   ║   👤 User: http://localhost:${PORT}/api/user       ║
   ║   🎬 Movies: http://localhost:${PORT}/api/movies   ║
   ║   📺 TV Shows: http://localhost:${PORT}/api/tv     ║
+  ║   🎭 People: http://localhost:${PORT}/api/people
   ║   📝 Watchlist: http://localhost:${PORT}/api/watchlist
   ║   ⭐ Favorites: http://localhost:${PORT}/api/favorites
+  ║   🕒 History: http://localhost:${PORT}/api/history
   ║   🌍 Environment: ${env.NODE_ENV || "development"}         ║
   ║                                                ║
   ╚════════════════════════════════════════════════╝
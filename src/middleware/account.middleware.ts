@@ -0,0 +1,66 @@
+import type { NextFunction, Request, Response } from "express";
+import { StatusCodes } from "http-status-codes";
+import type { User } from "../generated/prisma/client.js";
+import { isPendingDeletion } from "../services/account.service.js";
+import { findOrCreateUser } from "../services/user.service.js";
+import logger from "../utils/logger.js";
+
+/**
+ * Account Middleware
+ *
+ * Hides an account's data while it's waiting to be deleted. The only
+ * things the user can still do are check on the deletion and restore
+ * the account (see /api/user/account).
+ */
+
+/**
+ * Send a 403 if the account is pending deletion.
+ * Returns true if the response was sent.
+ */
+export const rejectPendingDeletion = (
+	res: Response,
+	user: Pick<User, "deletedAt" | "purgeAfter">,
+): boolean => {
+	if (!isPendingDeletion(user)) return false;
+
+	res.status(StatusCodes.FORBIDDEN).json({
+		success: false,
+		error: "This account is scheduled for deletion",
+		data: { purgeAfter: user.purgeAfter },
+	});
+	return true;
+};
+
+/**
+ * Block accounts that are pending deletion. Must run after requireAuth.
+ * Routes using resolveProfile or optionalProfile get this check already.
+ */
+export const requireActiveAccount = async (
+	req: Request,
+	res: Response,
+	next: NextFunction,
+): Promise<void> => {
+	try {
+		const clerkUserId = req.auth?.userId;
+
+		if (!clerkUserId) {
+			res.status(StatusCodes.UNAUTHORIZED).json({
+				success: false,
+				error: "Unauthorized",
+			});
+			return;
+		}
+
+		const user = await findOrCreateUser(clerkUserId);
+
+		if (!rejectPendingDeletion(res, user)) {
+			next();
+		}
+	} catch (error) {
+		logger.error(error, "Account middleware error");
+		res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+			success: false,
+			error: "Failed to check account",
+		});
+	}
+};
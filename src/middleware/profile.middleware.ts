@@ -0,0 +1,139 @@
+import type { NextFunction, Request, Response } from "express";
+import { StatusCodes } from "http-status-codes";
+import prisma from "../config/prisma.js";
+import type { Profile } from "../generated/prisma/client.js";
+import { getDefaultProfile } from "../services/profile.service.js";
+import { findOrCreateUser } from "../services/user.service.js";
+import logger from "../utils/logger.js";
+import { rejectPendingDeletion } from "./account.middleware.js";
+
+/**
+ * Profile Middleware
+ *
+ * Works out which viewing profile a request is acting as. Clients pick a
+ * profile with the X-Profile-Id header; without it the account's default
+ * profile is used, so clients that don't know about profiles keep working.
+ *
+ * Must run after requireAuth.
+ */
+
+export const PROFILE_HEADER = "X-Profile-Id";
+
+/**
+ * Look up the requested (or default) profile and attach it to req.profile.
+ * Sends an error response and returns false if the profile can't be used
+ * (or the account is pending deletion).
+ */
+const attachProfile = async (
+	req: Request,
+	res: Response,
+	clerkUserId: string,
+): Promise<boolean> => {
+	const user = await findOrCreateUser(clerkUserId);
+
+	// A deleted account's data stays hidden until it's restored
+	if (rejectPendingDeletion(res, user)) return false;
+
+	const profileId = req.get(PROFILE_HEADER);
+
+	if (!profileId) {
+		req.profile = await getDefaultProfile(user);
+		return true;
+	}
+
+	const profile = await prisma.profile.findUnique({
+		where: { id: profileId },
+	});
+
+	if (!profile) {
+		res.status(StatusCodes.NOT_FOUND).json({
+			success: false,
+			error: "Profile not found",
+		});
+		return false;
+	}
+
+	if (profile.userId !== user.id) {
+		res.status(StatusCodes.FORBIDDEN).json({
+			success: false,
+			error: "You do not have permission to use this profile",
+		});
+		return false;
+	}
+
+	req.profile = profile;
+	return true;
+};
+
+export const resolveProfile = async (
+	req: Request,
+	res: Response,
+	next: NextFunction,
+): Promise<void> => {
+	try {
+		const clerkUserId = req.auth?.userId;
+
+		if (!clerkUserId) {
+			res.status(StatusCodes.UNAUTHORIZED).json({
+				success: false,
+				error: "Unauthorized",
+			});
+			return;
+		}
+
+		if (await attachProfile(req, res, clerkUserId)) {
+			next();
+		}
+	} catch (error) {
+		logger.error(error, "Profile middleware error");
+		res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+			success: false,
+			error: "Failed to resolve profile",
+		});
+	}
+};
+
+/**
+ * Same as resolveProfile, for routes that also work without logging in.
+ * Guests simply don't get a profile. Must run after optionalAuth.
+ *
+ * Profiles matter on public routes because kids and maturity-limited
+ * profiles restrict what the catalog shows (see restriction.service.ts).
+ */
+export const optionalProfile = async (
+	req: Request,
+	res: Response,
+	next: NextFunction,
+): Promise<void> => {
+	try {
+		const clerkUserId = req.auth?.userId;
+
+		if (!clerkUserId) {
+			next();
+			return;
+		}
+
+		if (await attachProfile(req, res, clerkUserId)) {
+			next();
+		}
+	} catch (error) {
+		// Failing open here would show a kids profile everything, so fail closed
+		logger.error(error, "Optional profile middleware error");
+		res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+			success: false,
+			error: "Failed to resolve profile",
+		});
+	}
+};
+
+/**
+ * Get the profile resolveProfile attached to the request.
+ * Throws if the route forgot to use the middleware.
+ */
+export const getActiveProfile = (req: Request): Profile => {
+	if (!req.profile) {
+		throw new Error("resolveProfile must run before this route");
+	}
+
+	return req.profile;
+};
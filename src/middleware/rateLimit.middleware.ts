@@ -56,4 +56,40 @@ export const searchLimiter = rateLimit({
 	},
 	standardHeaders: true,
 	legacyHeaders: false,
-});
\ No newline at end of file
+});
+
+/**
+ * Search suggestion rate limiter
+ * Allows 120 requests per minute
+ *
+ * Type-ahead sends a request per keystroke and suggestions are cached
+ * in memory, so this is much more generous than the search limiter
+ */
+export const suggestLimiter = rateLimit({
+	windowMs: 60 * 1000, // 1 minute
+	max: 120, // Max 120 requests per minute
+	message: {
+		success: false,
+		error: "Too many suggestion requests, please slow down.",
+	},
+	standardHeaders: true,
+	legacyHeaders: false,
+});
+
+/**
+ * Import rate limiter
+ * Allows 10 imports per hour
+ *
+ * One import can match up to 1000 titles against TMDB, so even dry runs
+ * count towards this
+ */
+export const importLimiter = rateLimit({
+	windowMs: 60 * 60 * 1000, // 1 hour
+	max: 10, // Max 10 requests per hour
+	message: {
+		success: false,
+		error: "Too many imports, please try again later.",
+	},
+	standardHeaders: true,
+	legacyHeaders: false,
+});
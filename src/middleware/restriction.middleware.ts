@@ -0,0 +1,58 @@
+import type { NextFunction, Request, Response } from "express";
+import { StatusCodes } from "http-status-codes";
+import { getTitleRestriction } from "../services/restriction.service.js";
+import type { TMDBContentType } from "../types/tmdb.types.js";
+import logger from "../utils/logger.js";
+import { resolveContentRestrictions } from "../utils/maturity.js";
+
+/**
+ * Title Restriction Middleware
+ *
+ * Guards every /:id route of a movie or TV show. If the active profile
+ * isn't allowed to see the title (see restriction.service.ts), the request
+ * stops here with a 403 and the reason, so the client can explain it.
+ *
+ * Must run after optionalProfile.
+ *
+ * Usage:
+ * router.get('/:id', optionalAuth, optionalProfile, restrictTitle('movie'), controller)
+ */
+export const restrictTitle = (mediaType: TMDBContentType) => {
+	return async (
+		req: Request,
+		res: Response,
+		next: NextFunction,
+	): Promise<void> => {
+		try {
+			const restrictions = resolveContentRestrictions(req, mediaType);
+			// biome-ignore lint/style/noNonNullAssertion: The id must be provided when using this route
+			const id = parseInt(req.params.id!, 10);
+
+			// Invalid ids are reported by the controller
+			if (!restrictions || Number.isNaN(id)) {
+				next();
+				return;
+			}
+
+			const reason = await getTitleRestriction(mediaType, id, restrictions);
+
+			if (reason) {
+				res.status(StatusCodes.FORBIDDEN).json({
+					success: false,
+					error: "This title is not available on this profile",
+					reason,
+				});
+				return;
+			}
+
+			next();
+		} catch (error) {
+			// We couldn't prove the title is allowed, so don't show it
+			logger.error(error, "Title restriction middleware error");
+			res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+				success: false,
+				error: "Failed to check title restrictions",
+			});
+		}
+	};
+};
@@ -0,0 +1,35 @@
+import type { NextFunction, Request, Response } from "express";
+import { isPendingDeletion } from "../services/account.service.js";
+import { getUserSettings } from "../services/settings.service.js";
+import { getUserByClerkId } from "../services/user.service.js";
+import logger from "../utils/logger.js";
+
+/**
+ * Settings Middleware
+ *
+ * Attaches a signed-in user's settings to req.settings, so catalog routes
+ * can use them as defaults (e.g. the region for watch providers).
+ * Guests get no settings. Must run after optionalAuth or requireAuth.
+ */
+export const optionalSettings = async (
+	req: Request,
+	_res: Response,
+	next: NextFunction,
+): Promise<void> => {
+	try {
+		const clerkUserId = req.auth?.userId;
+
+		if (clerkUserId) {
+			const user = await getUserByClerkId(clerkUserId);
+
+			if (user && !isPendingDeletion(user)) {
+				req.settings = await getUserSettings(user.id);
+			}
+		}
+	} catch (error) {
+		// Settings are only defaults, so carry on without them
+		logger.warn(error, "Could not load user settings");
+	}
+
+	next();
+};
@@ -1,5 +1,10 @@
 import type { NextFunction, Request, Response } from "express";
+import {
+	isMaturityLevel,
+	MATURITY_LEVELS,
+} from "../services/certification.service.js";
 import { BadRequestError } from "../utils/errors.js";
+import { parseRegion } from "../utils/locale.js";
 
 /**
  * Validation Middleware
@@ -135,3 +140,61 @@ export const validateTMDBId = (
 	req.body.tmdbId = id;
 	next();
 };
+
+/**
+ * Validate maturity filter query params
+ *
+ * Usage:
+ * router.get('/movies/popular', validateMaturityFilter, controller)
+ */
+export const validateMaturityFilter = (
+	req: Request,
+	_res: Response,
+	next: NextFunction,
+): void => {
+	const { maxMaturity, includeUnrated, region } = req.query;
+
+	if (maxMaturity !== undefined && !isMaturityLevel(maxMaturity)) {
+		throw new BadRequestError(
+			`maxMaturity must be one of: ${MATURITY_LEVELS.join(", ")}`,
+		);
+	}
+
+	if (
+		includeUnrated !== undefined &&
+		includeUnrated !== "true" &&
+		includeUnrated !== "false"
+	) {
+		throw new BadRequestError('includeUnrated must be "true" or "false"');
+	}
+
+	if (region !== undefined && !parseRegion(region)) {
+		throw new BadRequestError("region must be a two-letter country code");
+	}
+
+	next();
+};
+
+/**
+ * Validate the withUserState query param
+ *
+ * Usage:
+ * router.get('/movies/popular', validateUserState, controller)
+ */
+export const validateUserState = (
+	req: Request,
+	_res: Response,
+	next: NextFunction,
+): void => {
+	const { withUserState } = req.query;
+
+	if (
+		withUserState !== undefined &&
+		withUserState !== "true" &&
+		withUserState !== "false"
+	) {
+		throw new BadRequestError('withUserState must be "true" or "false"');
+	}
+
+	next();
+};
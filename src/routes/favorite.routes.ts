@@ -1,4 +1,9 @@
 import { Router } from "express";
+import {
+	bulkAddItems,
+	bulkMoveItems,
+	bulkRemoveItems,
+} from "../controllers/bulk.controller.js";
 import {
 	addToFavorites,
 	checkFavoriteStatus,
@@ -6,12 +11,31 @@ import {
 	removeFromFavorites,
 } from "../controllers/favorite.controller.js";
 import { requireAuth } from "../middleware/auth.middleware.js";
+import { resolveProfile } from "../middleware/profile.middleware.js";
 
 const router: Router = Router();
 
-router.get("/", requireAuth, getFavorites);
-router.post("/", requireAuth, addToFavorites);
-router.delete("/:id", requireAuth, removeFromFavorites);
-router.get("/check", requireAuth, checkFavoriteStatus);
+router.get("/", requireAuth, resolveProfile, getFavorites);
+router.post("/", requireAuth, resolveProfile, addToFavorites);
+router.post(
+	"/bulk/add",
+	requireAuth,
+	resolveProfile,
+	bulkAddItems("favorites"),
+);
+router.post(
+	"/bulk/remove",
+	requireAuth,
+	resolveProfile,
+	bulkRemoveItems("favorites"),
+);
+router.post(
+	"/bulk/move",
+	requireAuth,
+	resolveProfile,
+	bulkMoveItems("favorites"),
+);
+router.delete("/:id", requireAuth, resolveProfile, removeFromFavorites);
+router.get("/check", requireAuth, resolveProfile, checkFavoriteStatus);
 
 export default router;
@@ -0,0 +1,36 @@
+import { Router } from "express";
+import {
+	clearWatchHistory,
+	deleteWatchHistory,
+	getWatchHistory,
+	recordWatchHistory,
+	updateWatchHistory,
+} from "../controllers/history.controller.js";
+import { requireAuth } from "../middleware/auth.middleware.js";
+import { resolveProfile } from "../middleware/profile.middleware.js";
+
+/**
+ * Watch History Routes
+ *
+ * All history routes require authentication because
+ * viewing history is personal to each user.
+ */
+
+const router: Router = Router();
+
+// Get user's watch history (paginated and filterable)
+router.get("/", requireAuth, resolveProfile, getWatchHistory);
+
+// Record a new history entry
+router.post("/", requireAuth, resolveProfile, recordWatchHistory);
+
+// Clear the user's entire watch history
+router.delete("/", requireAuth, resolveProfile, clearWatchHistory);
+
+// Update progress on an existing entry
+router.patch("/:id", requireAuth, resolveProfile, updateWatchHistory);
+
+// Remove a single entry by its ID
+router.delete("/:id", requireAuth, resolveProfile, deleteWatchHistory);
+
+export default router;
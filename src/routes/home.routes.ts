@@ -0,0 +1,25 @@
+import { Router } from "express";
+import { getContinueWatchingRow } from "../controllers/home.controller.js";
+import { requireAuth } from "../middleware/auth.middleware.js";
+import { resolveProfile } from "../middleware/profile.middleware.js";
+import { optionalSettings } from "../middleware/settings.middleware.js";
+
+/**
+ * Home Routes
+ *
+ * Personalised rows for the home screen. These require
+ * authentication because they are built from the user's activity.
+ */
+
+const router: Router = Router();
+
+// Partially watched movies and next episodes of in-progress shows
+router.get(
+	"/continue-watching",
+	requireAuth,
+	resolveProfile,
+	optionalSettings,
+	getContinueWatchingRow,
+);
+
+export default router;
@@ -0,0 +1,30 @@
+import express, { Router } from "express";
+import { importFile } from "../controllers/import.controller.js";
+import { requireAuth } from "../middleware/auth.middleware.js";
+import { resolveProfile } from "../middleware/profile.middleware.js";
+import { importLimiter } from "../middleware/rateLimit.middleware.js";
+
+/**
+ * Import Routes
+ *
+ * These are mounted in app.ts before the global JSON parser, because an
+ * export file is sent as the whole request body and can be bigger than
+ * that parser allows. It's read as text and parsed by the import service.
+ */
+
+const router: Router = Router();
+
+// Letterboxd, IMDb or Trakt export file -> watchlist, favorites or history
+router.post(
+	"/",
+	importLimiter,
+	requireAuth,
+	resolveProfile,
+	express.text({
+		type: ["text/csv", "text/plain", "application/json"],
+		limit: "5mb",
+	}),
+	importFile,
+);
+
+export default router;
@@ -1,6 +1,14 @@
 import { Router } from "express";
 import favoriteRoutes from "./favorite.routes.js";
+import historyRoutes from "./history.routes.js";
+import homeRoutes from "./home.routes.js";
+import listRoutes from "./list.routes.js";
 import movieRoutes from "./movie.routes.js";
+import peopleRoutes from "./people.routes.js";
+import progressRoutes from "./progress.routes.js";
+import searchRoutes from "./search.routes.js";
+import sharedRoutes from "./shared.routes.js";
+import statusRoutes from "./status.routes.js";
 import tvRoutes from "./tv.routes.js";
 import userRoutes from "./user.routes.js";
 import watchlistRoutes from "./watchlist.routes.js";
@@ -10,7 +18,15 @@ const router: Router = Router();
 router.use("/user", userRoutes);
 router.use("/movies", movieRoutes);
 router.use("/tv", tvRoutes);
+router.use("/people", peopleRoutes);
+router.use("/search", searchRoutes);
 router.use("/watchlist", watchlistRoutes);
 router.use("/favorites", favoriteRoutes);
+router.use("/lists", listRoutes);
+router.use("/shared", sharedRoutes);
+router.use("/history", historyRoutes);
+router.use("/progress", progressRoutes);
+router.use("/status", statusRoutes);
+router.use("/home", homeRoutes);
 
 export default router;
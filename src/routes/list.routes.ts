@@ -0,0 +1,62 @@
+import { Router } from "express";
+import {
+	addItemToList,
+	createList,
+	deleteList,
+	getList,
+	listLists,
+	removeItemFromList,
+	reorderList,
+	updateList,
+	updateListSharingSettings,
+} from "../controllers/list.controller.js";
+import { requireAuth } from "../middleware/auth.middleware.js";
+import { resolveProfile } from "../middleware/profile.middleware.js";
+
+/**
+ * List Routes
+ *
+ * Custom lists belong to a profile, so like the watchlist every route
+ * requires authentication.
+ */
+
+const router: Router = Router();
+
+// Get the active profile's lists
+router.get("/", requireAuth, resolveProfile, listLists);
+
+// Create a list
+router.post("/", requireAuth, resolveProfile, createList);
+
+// Get one list with its items
+router.get("/:id", requireAuth, resolveProfile, getList);
+
+// Rename a list or change its description or cover image
+router.patch("/:id", requireAuth, resolveProfile, updateList);
+
+// Delete a list and everything on it
+router.delete("/:id", requireAuth, resolveProfile, deleteList);
+
+// Change who can see a list, or get a new share link
+router.patch(
+	"/:id/sharing",
+	requireAuth,
+	resolveProfile,
+	updateListSharingSettings,
+);
+
+// Add a title to a list
+router.post("/:id/items", requireAuth, resolveProfile, addItemToList);
+
+// Put a list's items in a new order
+router.put("/:id/items/order", requireAuth, resolveProfile, reorderList);
+
+// Remove a title from a list
+router.delete(
+	"/:id/items/:itemId",
+	requireAuth,
+	resolveProfile,
+	removeItemFromList,
+);
+
+export default router;
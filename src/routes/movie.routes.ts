@@ -4,8 +4,10 @@ import {
 	getMovieCredits,
 	getMovieDetails,
 	getMovieGenres,
+	getMovieProviderCatalog,
 	getMovieRecommendations,
 	getMovieVideos,
+	getMovieWatchProviders,
 	getNowPlayingMovies,
 	getPopularMovies,
 	getSimilarMovies,
@@ -15,6 +17,13 @@ import {
 	searchMovies,
 } from "../controllers/movie.controller.js";
 import { optionalAuth } from "../middleware/auth.middleware.js";
+import { optionalProfile } from "../middleware/profile.middleware.js";
+import { restrictTitle } from "../middleware/restriction.middleware.js";
+import { optionalSettings } from "../middleware/settings.middleware.js";
+import {
+	validateMaturityFilter,
+	validateUserState,
+} from "../middleware/validation.middleware.js";
 
 /**
  * Movie Routes
@@ -30,23 +39,139 @@ import { optionalAuth } from "../middleware/auth.middleware.js";
 const router: Router = Router();
 
 // List endpoints - these return multiple movies
-router.get("/trending", optionalAuth, getTrendingMovies);
-router.get("/popular", optionalAuth, getPopularMovies);
-router.get("/top-rated", optionalAuth, getTopRatedMovies);
-router.get("/now-playing", optionalAuth, getNowPlayingMovies);
-router.get("/upcoming", optionalAuth, getUpcomingMovies);
+router.get(
+	"/trending",
+	optionalAuth,
+	optionalSettings,
+	optionalProfile,
+	validateMaturityFilter,
+	validateUserState,
+	getTrendingMovies,
+);
+router.get(
+	"/popular",
+	optionalAuth,
+	optionalSettings,
+	optionalProfile,
+	validateMaturityFilter,
+	validateUserState,
+	getPopularMovies,
+);
+router.get(
+	"/top-rated",
+	optionalAuth,
+	optionalSettings,
+	optionalProfile,
+	validateMaturityFilter,
+	validateUserState,
+	getTopRatedMovies,
+);
+router.get(
+	"/now-playing",
+	optionalAuth,
+	optionalSettings,
+	optionalProfile,
+	validateMaturityFilter,
+	validateUserState,
+	getNowPlayingMovies,
+);
+router.get(
+	"/upcoming",
+	optionalAuth,
+	optionalSettings,
+	optionalProfile,
+	validateMaturityFilter,
+	validateUserState,
+	getUpcomingMovies,
+);
 
 // Utility endpoints
-router.get("/genres", optionalAuth, getMovieGenres);
-router.get("/search", optionalAuth, searchMovies);
-router.get("/discover", optionalAuth, discoverMovies);
+router.get(
+	"/genres",
+	optionalAuth,
+	optionalSettings,
+	optionalProfile,
+	getMovieGenres,
+);
+router.get(
+	"/search",
+	optionalAuth,
+	optionalSettings,
+	optionalProfile,
+	validateMaturityFilter,
+	validateUserState,
+	searchMovies,
+);
+router.get(
+	"/discover",
+	optionalAuth,
+	optionalSettings,
+	optionalProfile,
+	validateMaturityFilter,
+	validateUserState,
+	discoverMovies,
+);
+router.get(
+	"/providers",
+	optionalAuth,
+	optionalSettings,
+	optionalProfile,
+	getMovieProviderCatalog,
+);
 
 // Detail endpoints - these are for a specific movie
 // These use :id as a route parameter (e.g., /api/movies/550)
-router.get("/:id", optionalAuth, getMovieDetails);
-router.get("/:id/credits", optionalAuth, getMovieCredits);
-router.get("/:id/videos", optionalAuth, getMovieVideos);
-router.get("/:id/similar", optionalAuth, getSimilarMovies);
-router.get("/:id/recommendations", optionalAuth, getMovieRecommendations);
+router.get(
+	"/:id",
+	optionalAuth,
+	optionalSettings,
+	optionalProfile,
+	restrictTitle("movie"),
+	getMovieDetails,
+);
+router.get(
+	"/:id/credits",
+	optionalAuth,
+	optionalSettings,
+	optionalProfile,
+	restrictTitle("movie"),
+	getMovieCredits,
+);
+router.get(
+	"/:id/videos",
+	optionalAuth,
+	optionalSettings,
+	optionalProfile,
+	restrictTitle("movie"),
+	getMovieVideos,
+);
+router.get(
+	"/:id/similar",
+	optionalAuth,
+	optionalSettings,
+	optionalProfile,
+	restrictTitle("movie"),
+	validateMaturityFilter,
+	validateUserState,
+	getSimilarMovies,
+);
+router.get(
+	"/:id/recommendations",
+	optionalAuth,
+	optionalSettings,
+	optionalProfile,
+	restrictTitle("movie"),
+	validateMaturityFilter,
+	validateUserState,
+	getMovieRecommendations,
+);
+router.get(
+	"/:id/providers",
+	optionalAuth,
+	optionalSettings,
+	optionalProfile,
+	restrictTitle("movie"),
+	getMovieWatchProviders,
+);
 
 export default router;
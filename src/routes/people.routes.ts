@@ -0,0 +1,34 @@
+import { Router } from "express";
+import {
+	getPersonCredits,
+	getPersonDetails,
+	getPersonImages,
+	getPopularPeople,
+	getTrendingPeople,
+	searchPeople,
+} from "../controllers/person.controller.js";
+import { optionalAuth } from "../middleware/auth.middleware.js";
+import { optionalSettings } from "../middleware/settings.middleware.js";
+
+/**
+ * People Routes
+ *
+ * Endpoints for actors, directors and crew members.
+ * Like movies and TV, these are public but use optionalAuth.
+ */
+
+const router: Router = Router();
+
+// List endpoints
+router.get("/trending", optionalAuth, optionalSettings, getTrendingPeople);
+router.get("/popular", optionalAuth, optionalSettings, getPopularPeople);
+
+// Utility endpoints
+router.get("/search", optionalAuth, optionalSettings, searchPeople);
+
+// Detail endpoints
+router.get("/:id", optionalAuth, optionalSettings, getPersonDetails);
+router.get("/:id/credits", optionalAuth, optionalSettings, getPersonCredits);
+router.get("/:id/images", optionalAuth, optionalSettings, getPersonImages);
+
+export default router;
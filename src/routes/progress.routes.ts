@@ -0,0 +1,40 @@
+import { Router } from "express";
+import {
+	getShowProgress,
+	markSeasonWatched,
+	markShowWatched,
+	updateEpisodeProgress,
+} from "../controllers/progress.controller.js";
+import { requireAuth } from "../middleware/auth.middleware.js";
+import { resolveProfile } from "../middleware/profile.middleware.js";
+
+/**
+ * Show Progress Routes
+ *
+ * Episode-level progress for TV shows. All routes require
+ * authentication because progress is personal to each user.
+ */
+
+const router: Router = Router();
+
+// Get progress for a whole show, grouped by season
+router.get("/:showId", requireAuth, resolveProfile, getShowProgress);
+
+// Save progress for a single episode
+router.put(
+	"/:showId/season/:season/episode/:episode",
+	requireAuth,
+	resolveProfile,
+	updateEpisodeProgress,
+);
+
+// Mark a whole season or show as watched in one call
+router.post(
+	"/:showId/season/:season/watched",
+	requireAuth,
+	resolveProfile,
+	markSeasonWatched,
+);
+router.post("/:showId/watched", requireAuth, resolveProfile, markShowWatched);
+
+export default router;
@@ -0,0 +1,49 @@
+import { Router } from "express";
+import {
+	getSearchSuggestions,
+	searchContent,
+} from "../controllers/search.controller.js";
+import { optionalAuth } from "../middleware/auth.middleware.js";
+import { optionalProfile } from "../middleware/profile.middleware.js";
+import {
+	searchLimiter,
+	suggestLimiter,
+} from "../middleware/rateLimit.middleware.js";
+import { optionalSettings } from "../middleware/settings.middleware.js";
+import {
+	validateMaturityFilter,
+	validateUserState,
+} from "../middleware/validation.middleware.js";
+
+/**
+ * Search Routes
+ *
+ * Unified search across movies, TV shows and people.
+ * Search hits TMDB on every request, so these routes use the
+ * stricter search rate limiter.
+ */
+
+const router: Router = Router();
+
+router.get(
+	"/",
+	searchLimiter,
+	optionalAuth,
+	optionalSettings,
+	optionalProfile,
+	validateMaturityFilter,
+	validateUserState,
+	searchContent,
+);
+
+// Type-ahead suggestions are cached, so they get a more generous limit
+router.get(
+	"/suggest",
+	suggestLimiter,
+	optionalAuth,
+	optionalSettings,
+	optionalProfile,
+	getSearchSuggestions,
+);
+
+export default router;
@@ -0,0 +1,45 @@
+import { Router } from "express";
+import {
+	browseShared,
+	copyShared,
+	getShared,
+} from "../controllers/shared.controller.js";
+import { optionalAuth, requireAuth } from "../middleware/auth.middleware.js";
+import {
+	optionalProfile,
+	resolveProfile,
+} from "../middleware/profile.middleware.js";
+import { optionalSettings } from "../middleware/settings.middleware.js";
+
+/**
+ * Shared Collection Routes
+ *
+ * Reading a shared list or watchlist works without logging in.
+ * Logged-in viewers also learn whether they own or saved it, and only
+ * see the titles their profile is allowed to.
+ */
+
+const router: Router = Router();
+
+// Browse public lists or watchlists
+router.get("/", browseShared);
+
+// Open a share link
+router.get(
+	"/:slug",
+	optionalAuth,
+	optionalSettings,
+	optionalProfile,
+	getShared,
+);
+
+// Copy a shared list or watchlist into your own watchlist
+router.post(
+	"/:slug/copy",
+	requireAuth,
+	optionalSettings,
+	resolveProfile,
+	copyShared,
+);
+
+export default router;
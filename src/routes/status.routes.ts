@@ -0,0 +1,17 @@
+import { Router } from "express";
+import { getBatchStatus } from "../controllers/status.controller.js";
+import { requireAuth } from "../middleware/auth.middleware.js";
+import { resolveProfile } from "../middleware/profile.middleware.js";
+
+/**
+ * Library Status Routes
+ *
+ * Status is personal to each profile, so it requires authentication.
+ */
+
+const router: Router = Router();
+
+// Watchlist, favorite, watched and progress status for many titles
+router.post("/", requireAuth, resolveProfile, getBatchStatus);
+
+export default router;
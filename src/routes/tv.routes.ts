@@ -5,14 +5,25 @@ import {
 	getSimilarTVShows,
 	getTopRatedTVShows,
 	getTrendingTVShows,
+	getTVEpisodeDetails,
+	getTVProviderCatalog,
+	getTVSeasonDetails,
 	getTVShowCredits,
 	getTVShowDetails,
 	getTVShowGenres,
 	getTVShowRecommendations,
 	getTVShowVideos,
+	getTVShowWatchProviders,
 	searchTVShows,
 } from "../controllers/tv.controller.js";
 import { optionalAuth } from "../middleware/auth.middleware.js";
+import { optionalProfile } from "../middleware/profile.middleware.js";
+import { restrictTitle } from "../middleware/restriction.middleware.js";
+import { optionalSettings } from "../middleware/settings.middleware.js";
+import {
+	validateMaturityFilter,
+	validateUserState,
+} from "../middleware/validation.middleware.js";
 
 /**
  * TV Show Routes
@@ -24,20 +35,138 @@ import { optionalAuth } from "../middleware/auth.middleware.js";
 const router: Router = Router();
 
 // List endpoints
-router.get("/trending", optionalAuth, getTrendingTVShows);
-router.get("/popular", optionalAuth, getPopularTVShows);
-router.get("/top-rated", optionalAuth, getTopRatedTVShows);
+router.get(
+	"/trending",
+	optionalAuth,
+	optionalSettings,
+	optionalProfile,
+	validateMaturityFilter,
+	validateUserState,
+	getTrendingTVShows,
+);
+router.get(
+	"/popular",
+	optionalAuth,
+	optionalSettings,
+	optionalProfile,
+	validateMaturityFilter,
+	validateUserState,
+	getPopularTVShows,
+);
+router.get(
+	"/top-rated",
+	optionalAuth,
+	optionalSettings,
+	optionalProfile,
+	validateMaturityFilter,
+	validateUserState,
+	getTopRatedTVShows,
+);
 
 // Utility endpoints
-router.get("/genres", optionalAuth, getTVShowGenres);
-router.get("/search", optionalAuth, searchTVShows);
-router.get("/discover", optionalAuth, discoverTVShows);
+router.get(
+	"/genres",
+	optionalAuth,
+	optionalSettings,
+	optionalProfile,
+	getTVShowGenres,
+);
+router.get(
+	"/search",
+	optionalAuth,
+	optionalSettings,
+	optionalProfile,
+	validateMaturityFilter,
+	validateUserState,
+	searchTVShows,
+);
+router.get(
+	"/discover",
+	optionalAuth,
+	optionalSettings,
+	optionalProfile,
+	validateMaturityFilter,
+	validateUserState,
+	discoverTVShows,
+);
+router.get(
+	"/providers",
+	optionalAuth,
+	optionalSettings,
+	optionalProfile,
+	getTVProviderCatalog,
+);
 
 // Detail endpoints
-router.get("/:id", optionalAuth, getTVShowDetails);
-router.get("/:id/credits", optionalAuth, getTVShowCredits);
-router.get("/:id/videos", optionalAuth, getTVShowVideos);
-router.get("/:id/similar", optionalAuth, getSimilarTVShows);
-router.get("/:id/recommendations", optionalAuth, getTVShowRecommendations);
+router.get(
+	"/:id",
+	optionalAuth,
+	optionalSettings,
+	optionalProfile,
+	restrictTitle("tv"),
+	getTVShowDetails,
+);
+router.get(
+	"/:id/credits",
+	optionalAuth,
+	optionalSettings,
+	optionalProfile,
+	restrictTitle("tv"),
+	getTVShowCredits,
+);
+router.get(
+	"/:id/videos",
+	optionalAuth,
+	optionalSettings,
+	optionalProfile,
+	restrictTitle("tv"),
+	getTVShowVideos,
+);
+router.get(
+	"/:id/similar",
+	optionalAuth,
+	optionalSettings,
+	optionalProfile,
+	restrictTitle("tv"),
+	validateMaturityFilter,
+	validateUserState,
+	getSimilarTVShows,
+);
+router.get(
+	"/:id/recommendations",
+	optionalAuth,
+	optionalSettings,
+	optionalProfile,
+	restrictTitle("tv"),
+	validateMaturityFilter,
+	validateUserState,
+	getTVShowRecommendations,
+);
+router.get(
+	"/:id/providers",
+	optionalAuth,
+	optionalSettings,
+	optionalProfile,
+	restrictTitle("tv"),
+	getTVShowWatchProviders,
+);
+
+// Season and episode endpoints
+router.get(
+	"/:id/season/:season",
+	optionalAuth,
+	optionalSettings,
+	optionalProfile,
+	restrictTitle("tv"),
+	getTVSeasonDetails,
+);
+router.get(
+	"/:id/season/:season/episode/:episode",
+	optionalAuth,
+	optionalSettings,
+	optionalProfile,
+	restrictTitle("tv"),
+	getTVEpisodeDetails,
+);
 
 export default router;
@@ -1,8 +1,31 @@
 import { Router } from "express";
+import {
+	deleteAccount,
+	getAccountDeletion,
+	restoreDeletedAccount,
+} from "../controllers/account.controller.js";
+import {
+	createDataExport,
+	downloadDataExport,
+	getDataExport,
+	listDataExports,
+} from "../controllers/export.controller.js";
+import {
+	createProfile,
+	deleteProfile,
+	getProfile,
+	listProfiles,
+	updateProfile,
+} from "../controllers/profile.controller.js";
+import {
+	getSettings,
+	updateSettings,
+} from "../controllers/settings.controller.js";
 import {
 	getCurrentUser,
 	syncUserProfile,
 } from "../controllers/user.controller.js";
+import { requireActiveAccount } from "../middleware/account.middleware.js";
 import { requireAuth } from "../middleware/auth.middleware.js";
 
 /**
@@ -46,4 +69,59 @@ router.get("/profile", requireAuth, getCurrentUser);
  */
 router.post("/sync", requireAuth, syncUserProfile);
 
+/**
+ * /api/user/settings
+ *
+ * Account-wide preferences (language, region, autoplay, hidden genres...).
+ * PATCH only needs the fields that changed.
+ */
+router.get("/settings", requireAuth, requireActiveAccount, getSettings);
+router.patch("/settings", requireAuth, requireActiveAccount, updateSettings);
+
+/**
+ * /api/user/profiles
+ *
+ * Viewing profiles on the account (e.g. one per family member).
+ * Send a profile's id in the X-Profile-Id header on watchlist, favorites,
+ * history, progress and home requests to act as that profile.
+ */
+router.get("/profiles", requireAuth, requireActiveAccount, listProfiles);
+router.post("/profiles", requireAuth, requireActiveAccount, createProfile);
+router.get("/profiles/:id", requireAuth, requireActiveAccount, getProfile);
+router.patch("/profiles/:id", requireAuth, requireActiveAccount, updateProfile);
+router.delete(
+	"/profiles/:id",
+	requireAuth,
+	requireActiveAccount,
+	deleteProfile,
+);
+
+/**
+ * /api/user/exports
+ *
+ * Download a copy of everything stored about the account.
+ * Large accounts are exported in the background: poll GET /exports/:id
+ * until its status is "completed", then fetch /exports/:id/download.
+ */
+router.get("/exports", requireAuth, requireActiveAccount, listDataExports);
+router.post("/exports", requireAuth, requireActiveAccount, createDataExport);
+router.get("/exports/:id", requireAuth, requireActiveAccount, getDataExport);
+router.get(
+	"/exports/:id/download",
+	requireAuth,
+	requireActiveAccount,
+	downloadDataExport,
+);
+
+/**
+ * /api/user/account
+ *
+ * Delete the account. It's hidden straight away (other account routes
+ * return 403) and can be restored until the grace period ends, after
+ * which it's purged for good.
+ */
+router.get("/account/deletion", requireAuth, getAccountDeletion);
+router.delete("/account", requireAuth, deleteAccount);
+router.post("/account/restore", requireAuth, restoreDeletedAccount);
+
 export default router;
@@ -4,8 +4,18 @@ import {
 	addToWatchlist,
 	removeFromWatchlist,
 	checkWatchlistStatus,
+	updateWatchlistItem,
+	reorderWatchlistItems,
+	getWatchlistSharingSettings,
+	updateWatchlistSharingSettings,
 } from "../controllers/watchlist.controller.js";
+import {
+	bulkAddItems,
+	bulkRemoveItems,
+	bulkMoveItems,
+} from "../controllers/bulk.controller.js";
 import { requireAuth } from "../middleware/auth.middleware.js";
+import { resolveProfile } from "../middleware/profile.middleware.js";
 
 /**
  * Watchlist Routes
@@ -17,15 +27,50 @@ import { requireAuth } from "../middleware/auth.middleware.js";
 const router: Router = Router();
 
 // Get user's complete watchlist
-router.get("/", requireAuth, getWatchlist);
+router.get("/", requireAuth, resolveProfile, getWatchlist);
 
 // Add item to watchlist
-router.post("/", requireAuth, addToWatchlist);
+router.post("/", requireAuth, resolveProfile, addToWatchlist);
+
+// See or change who can open the watchlist's share link
+router.get(
+	"/sharing",
+	requireAuth,
+	resolveProfile,
+	getWatchlistSharingSettings,
+);
+router.patch(
+	"/sharing",
+	requireAuth,
+	resolveProfile,
+	updateWatchlistSharingSettings,
+);
+
+// Add, remove or move (to favorites) many items at once
+router.post("/bulk/add", requireAuth, resolveProfile, bulkAddItems("watchlist"));
+router.post(
+	"/bulk/remove",
+	requireAuth,
+	resolveProfile,
+	bulkRemoveItems("watchlist"),
+);
+router.post(
+	"/bulk/move",
+	requireAuth,
+	resolveProfile,
+	bulkMoveItems("watchlist"),
+);
+
+// Put the whole watchlist in a new order
+router.put("/order", requireAuth, resolveProfile, reorderWatchlistItems);
+
+// Edit an item's note, position, tags or "watch by" date
+router.patch("/:id", requireAuth, resolveProfile, updateWatchlistItem);
 
 // Remove item from watchlist by its ID
-router.delete("/:id", requireAuth, removeFromWatchlist);
+router.delete("/:id", requireAuth, resolveProfile, removeFromWatchlist);
 
 // Check if a specific item is in the watchlist
-router.get("/check", requireAuth, checkWatchlistStatus);
+router.get("/check", requireAuth, resolveProfile, checkWatchlistStatus);
 
 export default router;
\ No newline at end of file
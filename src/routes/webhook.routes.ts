@@ -0,0 +1,30 @@
+import express, { Router } from "express";
+import { env } from "../config/env.js";
+import {
+	handleClerkWebhook,
+	replayClerkFixture,
+} from "../controllers/webhook.controller.js";
+
+/**
+ * Webhook Routes
+ *
+ * These are mounted in app.ts before the global JSON parser, because
+ * signature checks need the raw request body. Each route picks its own
+ * body parser instead.
+ */
+
+const router: Router = Router();
+
+// Signed by Clerk - see webhook.service.ts for how it's verified
+router.post(
+	"/clerk",
+	express.raw({ type: "application/json" }),
+	handleClerkWebhook,
+);
+
+// Local testing without Clerk: replays sample events, unsigned
+if (env.NODE_ENV === "development") {
+	router.post("/clerk/fixtures/:type", express.json(), replayClerkFixture);
+}
+
+export default router;
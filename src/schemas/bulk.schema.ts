@@ -0,0 +1,39 @@
+import z from "zod";
+import { MAX_BULK_ITEMS } from "../services/bulk.service.js";
+
+/**
+ * Bulk Operation Schemas
+ *
+ * Request bodies for adding, removing and moving many watchlist or
+ * favorites items at once.
+ */
+
+const favoriteItem = z.strictObject({
+	tmdbId: z.coerce.number().int().positive(),
+	contentType: z.enum(["movie", "tv"]),
+	title: z.string().trim().min(1).max(500),
+	posterPath: z.string().max(500).nullable().optional(),
+});
+
+const watchlistItem = favoriteItem.extend({
+	note: z.string().trim().max(1000).nullable().optional(),
+});
+
+export const bulkAddWatchlistSchema = z.strictObject({
+	items: z.array(watchlistItem).min(1).max(MAX_BULK_ITEMS),
+});
+
+export const bulkAddFavoritesSchema = z.strictObject({
+	items: z.array(favoriteItem).min(1).max(MAX_BULK_ITEMS),
+});
+
+export const bulkIdsSchema = z.strictObject({
+	ids: z
+		.array(z.string().min(1))
+		.min(1)
+		.max(MAX_BULK_ITEMS)
+		.refine(
+			(ids) => new Set(ids).size === ids.length,
+			"must not repeat an item",
+		),
+});
@@ -0,0 +1,36 @@
+import z from "zod";
+
+/**
+ * Common Schema Building Blocks
+ *
+ * Small zod schemas and helpers shared by the request schemas in this folder.
+ */
+
+export const languageCode = z
+	.string()
+	.regex(/^[a-z]{2}$/, "must be an ISO 639-1 language code like 'en'");
+
+// A language with an optional region, as TMDB takes it: "fr" or "pt-BR"
+export const tmdbLanguage = z
+	.string()
+	.regex(
+		/^[a-z]{2}(-[A-Z]{2})?$/,
+		"must be a language code like 'fr' or 'pt-BR'",
+	);
+
+// Upper-cased first, so "gb" is accepted everywhere, like parseRegion does
+export const countryCode = z
+	.string()
+	.trim()
+	.toUpperCase()
+	.regex(/^[A-Z]{2}$/, "must be an ISO 3166-1 country code like 'US'");
+
+/**
+ * Turn zod issues into a short, client-friendly list
+ * e.g. [{ field: "vote_average.gte", message: "Too big: expected number to be <=10" }]
+ */
+export const formatZodIssues = (error: z.ZodError) =>
+	error.issues.map((issue) => ({
+		field: issue.path.join("."),
+		message: issue.message,
+	}));
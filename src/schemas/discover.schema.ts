@@ -0,0 +1,154 @@
+import z from "zod";
+import { countryCode, languageCode } from "./common.schema.js";
+
+/**
+ * Discover Filter Schemas
+ *
+ * TMDB's discover endpoints accept dozens of filters. These schemas describe
+ * the ones we allow, validate their format, and reject anything unknown so a
+ * typo like `with_genre` returns a 400 instead of being silently ignored.
+ *
+ * Key names match TMDB's query params exactly (dots included), so the parsed
+ * result can be passed straight through to the API.
+ */
+
+// "28,12" means AND, "28|12" means OR in TMDB's discover syntax
+const idList = z
+	.string()
+	.regex(/^\d+([,|]\d+)*$/, "must be a comma or pipe separated list of IDs");
+
+const date = z.iso.date({ message: "must be a date in YYYY-MM-DD format" });
+const year = z.coerce.number().int().min(1870).max(2100);
+const rating = z.coerce.number().min(0).max(10);
+const minutes = z.coerce.number().int().min(0);
+
+const monetizationTypes = z
+	.string()
+	.regex(
+		/^(flatrate|free|ads|rent|buy)([,|](flatrate|free|ads|rent|buy))*$/,
+		"must be a list of flatrate, free, ads, rent or buy",
+	);
+
+const sortOrders = (fields: readonly string[]) =>
+	z.enum(fields.flatMap((field) => [`${field}.asc`, `${field}.desc`]));
+
+/**
+ * Filters shared by movies and TV shows
+ */
+const baseFilters = {
+	page: z.coerce.number().int().min(1).max(500).default(1),
+	include_adult: z.stringbool().optional(),
+
+	with_genres: idList.optional(),
+	without_genres: idList.optional(),
+	with_keywords: idList.optional(),
+	without_keywords: idList.optional(),
+	with_companies: idList.optional(),
+
+	"vote_average.gte": rating.optional(),
+	"vote_average.lte": rating.optional(),
+	"vote_count.gte": z.coerce.number().int().min(0).optional(),
+	"with_runtime.gte": minutes.optional(),
+	"with_runtime.lte": minutes.optional(),
+
+	with_original_language: languageCode.optional(),
+	with_origin_country: countryCode.optional(),
+
+	with_watch_providers: idList.optional(),
+	watch_region: countryCode.optional(),
+	with_watch_monetization_types: monetizationTypes.optional(),
+};
+
+export const movieDiscoverSchema = z.strictObject({
+	...baseFilters,
+	sort_by: sortOrders([
+		"popularity",
+		"vote_average",
+		"vote_count",
+		"primary_release_date",
+		"revenue",
+		"title",
+		"original_title",
+	]).default("popularity.desc"),
+
+	year: year.optional(),
+	primary_release_year: year.optional(),
+	"primary_release_date.gte": date.optional(),
+	"primary_release_date.lte": date.optional(),
+	"release_date.gte": date.optional(),
+	"release_date.lte": date.optional(),
+	region: countryCode.optional(),
+	with_release_type: idList.optional(),
+
+	with_cast: idList.optional(),
+	with_crew: idList.optional(),
+	with_people: idList.optional(),
+
+	certification: z.string().min(1).max(10).optional(),
+	"certification.gte": z.string().min(1).max(10).optional(),
+	"certification.lte": z.string().min(1).max(10).optional(),
+	certification_country: countryCode.optional(),
+});
+
+export const tvDiscoverSchema = z
+	.strictObject({
+		...baseFilters,
+		sort_by: sortOrders([
+			"popularity",
+			"vote_average",
+			"vote_count",
+			"first_air_date",
+			"name",
+			"original_name",
+		]).default("popularity.desc"),
+
+		// `year` is kept for compatibility and mapped to first_air_date_year
+		year: year.optional(),
+		first_air_date_year: year.optional(),
+		"first_air_date.gte": date.optional(),
+		"first_air_date.lte": date.optional(),
+		"air_date.gte": date.optional(),
+		"air_date.lte": date.optional(),
+		include_null_first_air_dates: z.stringbool().optional(),
+		screened_theatrically: z.stringbool().optional(),
+
+		with_networks: idList.optional(),
+		with_status: idList.optional(), // 0-5, e.g. 0 = Returning Series
+		with_type: idList.optional(), // 0-6, e.g. 4 = Miniseries
+
+		// TV discover has no region filter; this one only picks the
+		// certification country for the maturity filter
+		region: countryCode.optional(),
+	})
+	.transform(({ year, region: _region, ...filters }) => ({
+		...filters,
+		...(year !== undefined &&
+			filters.first_air_date_year === undefined && {
+				first_air_date_year: year,
+			}),
+	}));
+
+// Query params every catalog route accepts, handled outside the filters
+const SHARED_PARAMS = new Set([
+	"maxMaturity",
+	"includeUnrated",
+	"language",
+	"withUserState",
+]);
+
+/**
+ * The maturity filter (see utils/maturity.ts) and user state (see
+ * utils/userState.ts) are applied by us after TMDB responds, and the
+ * language is resolved like on every other route (see resolveLanguage),
+ * so their params are taken out before the strict schemas run.
+ */
+export const withoutSharedParams = (
+	query: Record<string, unknown>,
+): Record<string, unknown> =>
+	Object.fromEntries(
+		Object.entries(query).filter(([key]) => !SHARED_PARAMS.has(key)),
+	);
+
+export type MovieDiscoverFilters = z.infer<typeof movieDiscoverSchema>;
+export type TVDiscoverFilters = z.infer<typeof tvDiscoverSchema>;
+export type DiscoverFilters = MovieDiscoverFilters | TVDiscoverFilters;
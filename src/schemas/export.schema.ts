@@ -0,0 +1,20 @@
+import z from "zod";
+import { EXPORT_COLLECTIONS } from "../services/export.service.js";
+
+/**
+ * Export Schemas
+ *
+ * Query params for downloading a data export.
+ */
+
+export const downloadExportQuerySchema = z
+	.object({
+		format: z.enum(["json", "csv"]).default("json"),
+		collection: z.enum(EXPORT_COLLECTIONS).optional(),
+	})
+	.refine((query) => query.format !== "csv" || query.collection, {
+		message: `CSV downloads need a collection: ${EXPORT_COLLECTIONS.join(", ")}`,
+		path: ["collection"],
+	});
+
+export type DownloadExportQuery = z.infer<typeof downloadExportQuerySchema>;
@@ -0,0 +1,19 @@
+import z from "zod";
+
+/**
+ * Watch History Schemas
+ *
+ * Query params for paging and filtering the watch history.
+ */
+
+export const MAX_HISTORY_PAGE_SIZE = 100;
+
+export const historyQuerySchema = z.object({
+	limit: z.coerce.number().int().min(1).max(MAX_HISTORY_PAGE_SIZE).default(20),
+	cursor: z.string().min(1).optional(),
+	contentType: z.enum(["movie", "tv"]).optional(),
+	from: z.coerce.date({ message: "must be a valid date" }).optional(),
+	to: z.coerce.date({ message: "must be a valid date" }).optional(),
+});
+
+export type HistoryQuery = z.infer<typeof historyQuerySchema>;
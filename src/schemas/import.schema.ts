@@ -0,0 +1,18 @@
+import z from "zod";
+import { IMPORT_FORMATS, IMPORT_TARGETS } from "../services/import.service.js";
+
+/**
+ * Import Schemas
+ *
+ * Query params for importing an export file. The file itself is the
+ * request body.
+ */
+
+export const importQuerySchema = z.strictObject({
+	format: z.enum(IMPORT_FORMATS),
+	// Defaults to where the format's rows usually belong
+	target: z.enum(IMPORT_TARGETS).optional(),
+	dryRun: z.stringbool().default(false),
+});
+
+export type ImportQuery = z.infer<typeof importQuerySchema>;
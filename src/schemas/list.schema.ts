@@ -0,0 +1,47 @@
+import z from "zod";
+import { MAX_ITEMS_PER_LIST } from "../services/list.service.js";
+
+/**
+ * List Schemas
+ *
+ * Request bodies for custom lists and the titles on them.
+ */
+
+const listFields = {
+	name: z.string().trim().min(1).max(100),
+	description: z.string().trim().max(1000).nullable(),
+	coverImageUrl: z.url().max(500).nullable(),
+};
+
+export const createListSchema = z.strictObject({
+	...listFields,
+	description: listFields.description.optional(),
+	coverImageUrl: listFields.coverImageUrl.optional(),
+});
+
+export const updateListSchema = z.strictObject(listFields).partial();
+
+export const addListItemSchema = z.strictObject({
+	tmdbId: z.coerce.number().int().positive(),
+	contentType: z.enum(["movie", "tv"]),
+	title: z.string().trim().min(1).max(500),
+	posterPath: z.string().max(500).nullable().optional(),
+	note: z.string().trim().max(1000).nullable().optional(),
+	// Where to insert the item, starting at 0. Added to the end if left out.
+	position: z.number().int().min(0).optional(),
+});
+
+export const reorderListItemsSchema = z.strictObject({
+	// Every item on the list, in the new order
+	itemIds: z
+		.array(z.string().min(1))
+		.max(MAX_ITEMS_PER_LIST)
+		.refine(
+			(ids) => new Set(ids).size === ids.length,
+			"must not repeat an item",
+		),
+});
+
+export type CreateListInput = z.infer<typeof createListSchema>;
+export type UpdateListInput = z.infer<typeof updateListSchema>;
+export type AddListItemInput = z.infer<typeof addListItemSchema>;
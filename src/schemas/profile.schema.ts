@@ -0,0 +1,36 @@
+import z from "zod";
+import { MATURITY_LEVELS } from "../services/certification.service.js";
+import { languageCode } from "./common.schema.js";
+
+/**
+ * Profile Schemas
+ *
+ * Request bodies for creating and editing viewing profiles.
+ */
+
+const profileFields = {
+	name: z.string().trim().min(1).max(30),
+	avatarUrl: z.url().max(500).nullable(),
+	isKids: z.boolean(),
+	language: languageCode,
+	maturityLimit: z.enum(MATURITY_LEVELS),
+};
+
+export const createProfileSchema = z.strictObject({
+	...profileFields,
+	avatarUrl: profileFields.avatarUrl.optional(),
+	isKids: profileFields.isKids.default(false),
+	language: profileFields.language.default("en"),
+	// Defaults depend on isKids, so they're filled in by the controller
+	maturityLimit: profileFields.maturityLimit.optional(),
+});
+
+export const updateProfileSchema = z.strictObject({
+	...z.object(profileFields).partial().shape,
+	// A profile can be made the default, but not "un-defaulted";
+	// pick another profile as the default instead
+	isDefault: z.literal(true).optional(),
+});
+
+export type CreateProfileInput = z.infer<typeof createProfileSchema>;
+export type UpdateProfileInput = z.infer<typeof updateProfileSchema>;
@@ -0,0 +1,27 @@
+import z from "zod";
+
+/**
+ * Search Schemas
+ *
+ * Query params for the combined search and type-ahead suggestions.
+ * Repeating a param (?query=a&query=b) gives an array, which fails here
+ * with a 400 rather than reaching the search service.
+ */
+
+export const searchQuerySchema = z.object({
+	query: z
+		.string({ message: "Search query is required" })
+		.trim()
+		.min(1, "Search query is required"),
+	page: z.coerce.number().int().min(1).max(500).default(1),
+	include_adult: z.stringbool().default(false),
+});
+
+export const suggestQuerySchema = z.object({
+	// Fewer than 2 characters returns an empty list
+	q: z.string().trim().default(""),
+	limit: z.coerce.number().int().min(1).default(8),
+});
+
+export type SearchQuery = z.infer<typeof searchQuerySchema>;
+export type SuggestQuery = z.infer<typeof suggestQuerySchema>;
@@ -0,0 +1,35 @@
+import z from "zod";
+import {
+	CONTENT_TYPE_PREFERENCES,
+	IMAGE_QUALITIES,
+	MAX_HIDDEN_GENRES,
+} from "../services/settings.service.js";
+import { countryCode, tmdbLanguage } from "./common.schema.js";
+
+/**
+ * Settings Schemas
+ *
+ * Request body for changing account settings. Every field is optional,
+ * so clients only send what changed.
+ */
+
+export const updateSettingsSchema = z
+	.strictObject({
+		// null goes back to detecting these from the request
+		language: tmdbLanguage.nullable(),
+		region: countryCode.nullable(),
+		autoplayNextEpisode: z.boolean(),
+		autoplayPreviews: z.boolean(),
+		defaultContentType: z.enum(CONTENT_TYPE_PREFERENCES),
+		imageQuality: z.enum(IMAGE_QUALITIES),
+		hiddenGenreIds: z
+			.array(z.number().int().positive())
+			.max(MAX_HIDDEN_GENRES)
+			.transform((ids) => [...new Set(ids)]),
+		notifyNewEpisodes: z.boolean(),
+		notifyRecommendations: z.boolean(),
+		notifyProductUpdates: z.boolean(),
+	})
+	.partial();
+
+export type UpdateSettingsInput = z.infer<typeof updateSettingsSchema>;
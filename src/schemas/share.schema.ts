@@ -0,0 +1,27 @@
+import z from "zod";
+import { VISIBILITIES } from "../services/share.service.js";
+
+/**
+ * Sharing Schemas
+ *
+ * Request bodies and query params for sharing lists and watchlists.
+ */
+
+export const updateSharingSchema = z
+	.strictObject({
+		visibility: z.enum(VISIBILITIES).optional(),
+		// Swap the share link for a new one, so the old link stops working
+		regenerateLink: z.literal(true).optional(),
+	})
+	.refine((body) => body.visibility !== undefined || body.regenerateLink, {
+		message: "Send a visibility or regenerateLink",
+	});
+
+export const browseSharedQuerySchema = z.object({
+	type: z.enum(["list", "watchlist"]).default("list"),
+	limit: z.coerce.number().int().min(1).max(50).default(20),
+	cursor: z.string().min(1).optional(),
+});
+
+export type UpdateSharingInput = z.infer<typeof updateSharingSchema>;
+export type BrowseSharedQuery = z.infer<typeof browseSharedQuerySchema>;
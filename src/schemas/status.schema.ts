@@ -0,0 +1,20 @@
+import z from "zod";
+import { MAX_STATUS_ITEMS } from "../services/status.service.js";
+
+/**
+ * Library Status Schemas
+ *
+ * Request body for checking many titles at once.
+ */
+
+export const titleStatusSchema = z.strictObject({
+	items: z
+		.array(
+			z.strictObject({
+				tmdbId: z.coerce.number().int().positive(),
+				contentType: z.enum(["movie", "tv"]),
+			}),
+		)
+		.min(1)
+		.max(MAX_STATUS_ITEMS),
+});
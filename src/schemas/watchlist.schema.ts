@@ -0,0 +1,65 @@
+import z from "zod";
+import { WATCHLIST_SORTS } from "../services/watchlist.service.js";
+
+/**
+ * Watchlist Schemas
+ *
+ * Query params for paging, sorting and filtering the watchlist, and
+ * request bodies for editing it.
+ */
+
+// A reorder only lists the items it moves, so this doesn't cap the watchlist
+export const MAX_REORDER_ITEMS = 2000;
+
+const tag = z.string().trim().toLowerCase().min(1).max(30);
+
+// Unknown query params (e.g. cache busters) are ignored rather than rejected
+export const watchlistQuerySchema = z.object({
+	sort: z.enum(WATCHLIST_SORTS).default("added"),
+	// Defaults to newest/highest first, or A-Z for titles
+	order: z.enum(["asc", "desc"]).optional(),
+	limit: z.coerce.number().int().min(1).max(100).default(20),
+	cursor: z.string().min(1).optional(),
+	contentType: z.enum(["movie", "tv"]).optional(),
+	// "28,12" matches titles with either genre
+	genre: z
+		.string()
+		.regex(/^\d+(,\d+)*$/, "must be a comma separated list of genre IDs")
+		.transform((ids) => ids.split(",").map(Number))
+		.optional(),
+	watched: z.stringbool().optional(),
+	tag: tag.optional(),
+});
+
+export const updateWatchlistItemSchema = z
+	.strictObject({
+		note: z.string().trim().max(1000).nullable(),
+		// Where to move the item in the watchlist's manual order, starting at 0
+		position: z.number().int().min(0),
+		tags: z
+			.array(tag)
+			.max(20)
+			.transform((tags) => [...new Set(tags)]),
+		watchBy: z.iso
+			.date({ message: "must be a date in YYYY-MM-DD format" })
+			.transform((date) => new Date(date))
+			.nullable(),
+	})
+	.partial();
+
+export const reorderWatchlistSchema = z.strictObject({
+	// The items to rearrange, in their new order
+	itemIds: z
+		.array(z.string().min(1))
+		.min(1)
+		.max(MAX_REORDER_ITEMS)
+		.refine(
+			(ids) => new Set(ids).size === ids.length,
+			"must not repeat an item",
+		),
+});
+
+export type WatchlistQueryInput = z.infer<typeof watchlistQuerySchema>;
+export type UpdateWatchlistItemInput = z.infer<
+	typeof updateWatchlistItemSchema
+>;
@@ -0,0 +1,181 @@
+import { clerkClient } from "@clerk/clerk-sdk-node";
+import { env } from "../config/env.js";
+import prisma from "../config/prisma.js";
+import type {
+	AccountAuditLog,
+	Prisma,
+	User,
+} from "../generated/prisma/client.js";
+import logger from "../utils/logger.js";
+
+/**
+ * Account Service
+ *
+ * Handles a user deleting their account. Deletion happens in two steps:
+ * 1. The account is soft-deleted: its data is hidden straight away, but the
+ *    user can change their mind and restore it during a grace period
+ * 2. Once the grace period is over, the purge job deletes the account from
+ *    Clerk and our database for good
+ *
+ * Each step is written to the AccountAuditLog, which outlives the account.
+ */
+
+export type AccountAuditAction = "deletion_requested" | "restored" | "purged";
+
+// What caused an account to be purged
+export type PurgeTrigger = "grace_period_ended" | "clerk_user_deleted";
+
+export const isPendingDeletion = (user: Pick<User, "deletedAt">): boolean =>
+	user.deletedAt !== null;
+
+/**
+ * Add a step to the account's audit log
+ */
+const recordAccountAudit = (
+	tx: Prisma.TransactionClient,
+	user: Pick<User, "id" | "clerkId">,
+	action: AccountAuditAction,
+	details?: Prisma.InputJsonObject,
+) =>
+	tx.accountAuditLog.create({
+		data: {
+			userId: user.id,
+			clerkId: user.clerkId,
+			action,
+			...(details && { details }),
+		},
+	});
+
+/**
+ * Soft-delete an account and schedule it for purging
+ */
+export const requestAccountDeletion = async (user: User): Promise<User> => {
+	const deletedAt = new Date();
+	const purgeAfter = new Date(
+		deletedAt.getTime() + env.ACCOUNT_DELETION_GRACE_DAYS * 24 * 60 * 60 * 1000,
+	);
+
+	const [updated] = await prisma.$transaction([
+		prisma.user.update({
+			where: { id: user.id },
+			data: { deletedAt, purgeAfter },
+		}),
+		recordAccountAudit(prisma, user, "deletion_requested", {
+			purgeAfter: purgeAfter.toISOString(),
+		}),
+	]);
+
+	logger.info(`Account ${user.id} scheduled for deletion after ${purgeAfter}`);
+	return updated;
+};
+
+/**
+ * Cancel a pending deletion, making the account's data visible again
+ */
+export const restoreAccount = async (user: User): Promise<User> => {
+	const [updated] = await prisma.$transaction([
+		prisma.user.update({
+			where: { id: user.id },
+			data: { deletedAt: null, purgeAfter: null },
+		}),
+		recordAccountAudit(prisma, user, "restored"),
+	]);
+
+	logger.info(`Account ${user.id} restored`);
+	return updated;
+};
+
+/**
+ * Get the audit log for an account, oldest step first
+ */
+export const getAccountAuditLog = async (
+	userId: string,
+): Promise<AccountAuditLog[]> =>
+	prisma.accountAuditLog.findMany({
+		where: { userId },
+		orderBy: { createdAt: "asc" },
+	});
+
+/**
+ * Delete an account and everything it owns.
+ * Profiles, watchlists, history etc. go with it through cascading deletes.
+ */
+export const purgeAccount = async (
+	user: Pick<User, "id" | "clerkId">,
+	trigger: PurgeTrigger,
+): Promise<void> => {
+	await prisma.$transaction([
+		prisma.user.deleteMany({ where: { id: user.id } }),
+		recordAccountAudit(prisma, user, "purged", { trigger }),
+	]);
+
+	logger.info(`Purged account ${user.id} (${trigger})`);
+};
+
+/**
+ * Delete the user from Clerk, so they can't sign back in to an empty
+ * account. Returns false if Clerk couldn't be reached, so the purge can
+ * be retried on the next run.
+ */
+const deleteClerkUser = async (clerkId: string): Promise<boolean> => {
+	try {
+		await clerkClient.users.deleteUser(clerkId);
+		return true;
+	} catch (error) {
+		// Already deleted in Clerk, which is all we wanted
+		if ((error as { status?: number }).status === 404) return true;
+
+		logger.error(error, `Failed to delete Clerk user ${clerkId}`);
+		return false;
+	}
+};
+
+/**
+ * Purge every account whose grace period is over.
+ * Returns how many accounts were purged.
+ */
+export const purgeDueAccounts = async (
+	now: Date = new Date(),
+): Promise<number> => {
+	const due = await prisma.user.findMany({
+		where: { deletedAt: { not: null }, purgeAfter: { lte: now } },
+		select: { id: true, clerkId: true },
+	});
+
+	let purged = 0;
+
+	for (const user of due) {
+		if (!(await deleteClerkUser(user.clerkId))) continue;
+
+		await purgeAccount(user, "grace_period_ended");
+		purged++;
+	}
+
+	return purged;
+};
+
+/**
+ * Run purgeDueAccounts now and then every ACCOUNT_PURGE_INTERVAL_MINUTES.
+ * Returns a function that stops the job.
+ */
+export const startAccountPurgeJob = (): (() => void) => {
+	const run = async () => {
+		try {
+			const purged = await purgeDueAccounts();
+			if (purged > 0)
+				logger.info(`Account purge job purged ${purged} accounts`);
+		} catch (error) {
+			logger.error(error, "Account purge job failed");
+		}
+	};
+
+	void run();
+	const timer = setInterval(
+		run,
+		env.ACCOUNT_PURGE_INTERVAL_MINUTES * 60 * 1000,
+	);
+	// Don't keep the process alive just for this job
+	timer.unref();
+
+	return () => clearInterval(timer);
+};
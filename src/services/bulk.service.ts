@@ -0,0 +1,355 @@
+import prisma from "../config/prisma.js";
+import type { Prisma, Profile } from "../generated/prisma/client.js";
+import {
+	compactWatchlistPositions,
+	nextWatchlistPosition,
+} from "./watchlist.service.js";
+
+/**
+ * Bulk Watchlist and Favorites Service
+ *
+ * Multi-select actions from the client: add, remove or move many items at
+ * once. Each batch runs in one transaction, so it either happens in full
+ * or not at all, and every item gets its own result:
+ * - "created": added (or, for a move, added to the other collection)
+ * - "removed": removed
+ * - "moved": moved to the other collection
+ * - "duplicate": already there. A moved item that was already in the other
+ *   collection is still removed from this one.
+ * - "not_found": no item with this ID
+ * - "forbidden": the item belongs to another profile
+ */
+
+export const MAX_BULK_ITEMS = 100;
+
+export type BulkCollection = "watchlist" | "favorites";
+
+export type BulkItemStatus =
+	| "created"
+	| "removed"
+	| "moved"
+	| "duplicate"
+	| "not_found"
+	| "forbidden";
+
+export interface BulkItemResult {
+	// Where the item was in the request
+	index: number;
+	// The item's ID in the collection it ended up in, when there is one
+	id: string | null;
+	status: BulkItemStatus;
+}
+
+export interface BulkResult {
+	results: BulkItemResult[];
+	summary: Partial<Record<BulkItemStatus, number>>;
+}
+
+export interface BulkAddItem {
+	tmdbId: number;
+	contentType: string;
+	title: string;
+	posterPath?: string | null | undefined;
+	// Only kept by the watchlist
+	note?: string | null | undefined;
+}
+
+type Tx = Prisma.TransactionClient;
+
+interface CollectionRow {
+	id: string;
+	profileId: string;
+	tmdbId: number;
+	contentType: string;
+	title: string;
+	posterPath: string | null;
+}
+
+const rowSelect = {
+	id: true,
+	profileId: true,
+	tmdbId: true,
+	contentType: true,
+	title: true,
+	posterPath: true,
+} as const;
+
+const titleKey = (item: { tmdbId: number; contentType: string }) =>
+	`${item.contentType}:${item.tmdbId}`;
+
+const summarize = (results: BulkItemResult[]): BulkResult => ({
+	results,
+	summary: results.reduce<Partial<Record<BulkItemStatus, number>>>(
+		(counts, { status }) => {
+			counts[status] = (counts[status] ?? 0) + 1;
+			return counts;
+		},
+		{},
+	),
+});
+
+/**
+ * IDs of the given titles already in a profile's collection, by title key
+ */
+const findExisting = async (
+	tx: Tx,
+	collection: BulkCollection,
+	profileId: string,
+	items: { tmdbId: number; contentType: string }[],
+): Promise<Map<string, string>> => {
+	const where = {
+		profileId,
+		tmdbId: { in: items.map((item) => item.tmdbId) },
+	};
+	const select = { id: true, tmdbId: true, contentType: true };
+
+	const rows =
+		collection === "watchlist"
+			? await tx.watchlist.findMany({ where, select })
+			: await tx.favorite.findMany({ where, select });
+
+	return new Map(rows.map((row) => [titleKey(row), row.id]));
+};
+
+/**
+ * Create items in a collection; new watchlist items go to the end.
+ * Returns the new IDs by title key. Titles another request added in the
+ * meantime are skipped rather than failing the batch, so they're missing
+ * from the result.
+ */
+const createItems = async (
+	tx: Tx,
+	collection: BulkCollection,
+	profile: Pick<Profile, "id" | "userId">,
+	items: BulkAddItem[],
+): Promise<Map<string, string>> => {
+	if (items.length === 0) return new Map();
+
+	const owner = { userId: profile.userId, profileId: profile.id };
+	const select = { id: true, tmdbId: true, contentType: true };
+
+	let created: { id: string; tmdbId: number; contentType: string }[];
+
+	if (collection === "watchlist") {
+		const start = await nextWatchlistPosition(tx, profile.id);
+
+		created = await tx.watchlist.createManyAndReturn({
+			data: items.map((item, index) => ({
+				...owner,
+				tmdbId: item.tmdbId,
+				contentType: item.contentType,
+				title: item.title,
+				posterPath: item.posterPath ?? null,
+				note: item.note ?? null,
+				position: start + index,
+			})),
+			select,
+			skipDuplicates: true,
+		});
+
+		// Skipped titles leave gaps in the positions handed out
+		if (created.length < items.length) {
+			await compactWatchlistPositions(tx, profile.id);
+		}
+	} else {
+		created = await tx.favorite.createManyAndReturn({
+			data: items.map((item) => ({
+				...owner,
+				tmdbId: item.tmdbId,
+				contentType: item.contentType,
+				title: item.title,
+				posterPath: item.posterPath ?? null,
+			})),
+			select,
+			skipDuplicates: true,
+		});
+	}
+
+	return new Map(created.map((row) => [titleKey(row), row.id]));
+};
+
+/**
+ * Look up items by ID and sort out which ones the profile may change
+ */
+const findOwnedRows = async (
+	tx: Tx,
+	collection: BulkCollection,
+	profileId: string,
+	ids: string[],
+): Promise<{
+	owned: CollectionRow[];
+	statuses: Map<string, BulkItemStatus>;
+}> => {
+	const where = { id: { in: ids } };
+	const rows: CollectionRow[] =
+		collection === "watchlist"
+			? await tx.watchlist.findMany({ where, select: rowSelect })
+			: await tx.favorite.findMany({ where, select: rowSelect });
+
+	const byId = new Map(rows.map((row) => [row.id, row]));
+	const statuses = new Map<string, BulkItemStatus>();
+
+	for (const id of ids) {
+		const row = byId.get(id);
+		if (!row) statuses.set(id, "not_found");
+		else if (row.profileId !== profileId) statuses.set(id, "forbidden");
+	}
+
+	return {
+		owned: rows.filter((row) => row.profileId === profileId),
+		statuses,
+	};
+};
+
+const deleteRows = async (
+	tx: Tx,
+	collection: BulkCollection,
+	profileId: string,
+	ids: string[],
+): Promise<void> => {
+	if (ids.length === 0) return;
+
+	if (collection === "watchlist") {
+		await tx.watchlist.deleteMany({ where: { id: { in: ids }, profileId } });
+		await compactWatchlistPositions(tx, profileId);
+	} else {
+		await tx.favorite.deleteMany({ where: { id: { in: ids }, profileId } });
+	}
+};
+
+/**
+ * Add many titles to a collection.
+ * Titles already there, or repeated in the batch, are duplicates.
+ */
+export const bulkAdd = async (
+	collection: BulkCollection,
+	profile: Profile,
+	items: BulkAddItem[],
+): Promise<BulkResult> =>
+	prisma.$transaction(async (tx) => {
+		const existing = await findExisting(tx, collection, profile.id, items);
+		const seen = new Set(existing.keys());
+
+		const toCreate = items.filter((item) => {
+			const key = titleKey(item);
+			if (seen.has(key)) return false;
+			seen.add(key);
+			return true;
+		});
+
+		const created = await createItems(tx, collection, profile, toCreate);
+		const claimed = new Set<string>();
+
+		// Titles added by another request since they were looked up weren't
+		// created here, so they're duplicates of that request's rows
+		const skipped = toCreate.filter((item) => !created.has(titleKey(item)));
+		if (skipped.length > 0) {
+			const added = await findExisting(tx, collection, profile.id, skipped);
+			for (const [key, id] of added) existing.set(key, id);
+		}
+
+		return summarize(
+			items.map((item, index) => {
+				const key = titleKey(item);
+				const id = created.get(key);
+
+				// The first copy of a repeated title is the one that was created
+				if (id && !claimed.has(key)) {
+					claimed.add(key);
+					return { index, id, status: "created" };
+				}
+
+				return {
+					index,
+					id: existing.get(key) ?? id ?? null,
+					status: "duplicate",
+				};
+			}),
+		);
+	});
+
+/**
+ * Remove many items from a collection by ID
+ */
+export const bulkRemove = async (
+	collection: BulkCollection,
+	profile: Profile,
+	ids: string[],
+): Promise<BulkResult> =>
+	prisma.$transaction(async (tx) => {
+		const { owned, statuses } = await findOwnedRows(
+			tx,
+			collection,
+			profile.id,
+			ids,
+		);
+
+		await deleteRows(
+			tx,
+			collection,
+			profile.id,
+			owned.map((row) => row.id),
+		);
+
+		return summarize(
+			ids.map((id, index) => {
+				const status = statuses.get(id);
+				return status
+					? { index, id: null, status }
+					: { index, id, status: "removed" };
+			}),
+		);
+	});
+
+/**
+ * Move many items from one collection to the other
+ * (watchlist to favorites, or favorites to watchlist)
+ */
+export const bulkMove = async (
+	from: BulkCollection,
+	profile: Profile,
+	ids: string[],
+): Promise<BulkResult> => {
+	const to: BulkCollection = from === "watchlist" ? "favorites" : "watchlist";
+
+	return prisma.$transaction(async (tx) => {
+		const { owned, statuses } = await findOwnedRows(tx, from, profile.id, ids);
+		const existing = await findExisting(tx, to, profile.id, owned);
+
+		const rowsById = new Map(owned.map((row) => [row.id, row]));
+		const toCreate = owned.filter((row) => !existing.has(titleKey(row)));
+		const created = await createItems(tx, to, profile, toCreate);
+
+		// As in bulkAdd, titles another request just added are duplicates
+		const skipped = toCreate.filter((row) => !created.has(titleKey(row)));
+		if (skipped.length > 0) {
+			const added = await findExisting(tx, to, profile.id, skipped);
+			for (const [key, id] of added) existing.set(key, id);
+		}
+
+		await deleteRows(
+			tx,
+			from,
+			profile.id,
+			owned.map((row) => row.id),
+		);
+
+		return summarize(
+			ids.map((id, index) => {
+				const status = statuses.get(id);
+				const row = rowsById.get(id);
+
+				if (status || !row) {
+					return { index, id: null, status: status ?? "not_found" };
+				}
+
+				const key = titleKey(row);
+				const movedId = created.get(key);
+
+				return movedId
+					? { index, id: movedId, status: "moved" }
+					: { index, id: existing.get(key) ?? null, status: "duplicate" };
+			}),
+		);
+	});
+};
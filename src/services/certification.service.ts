@@ -0,0 +1,249 @@
+import type {
+	TMDBContentType,
+	TMDBPaginatedResponse,
+} from "../types/tmdb.types.js";
+import { DEFAULT_REGION } from "../utils/locale.js";
+import logger from "../utils/logger.js";
+import { tmdbService } from "./tmdb.service.js";
+
+/**
+ * Certification Service
+ *
+ * Every country rates titles differently: the US says "PG-13", the UK says
+ * "12A", Germany says "12". This service looks up a title's certification
+ * for a region and maps it onto one shared maturity scale so the rest of
+ * the app can ask a simple question: "is this suitable for 13+?".
+ */
+
+/**
+ * Normalized maturity levels, from least to most mature
+ */
+export const MATURITY_LEVELS = ["all", "7+", "13+", "16+", "18+"] as const;
+
+export type MaturityLevel = (typeof MATURITY_LEVELS)[number];
+
+export interface TitleCertification {
+	// The region the certification comes from. Falls back to DEFAULT_REGION
+	// when the requested region has no rating for the title.
+	region: string;
+	certification: string | null;
+	maturity: MaturityLevel | null;
+	descriptors: string[];
+}
+
+export interface MaturityFilter {
+	maxMaturity: MaturityLevel;
+	region: string;
+	// Unrated titles are hidden unless this is set, since we can't vouch for them
+	includeUnrated: boolean;
+}
+
+/**
+ * Known certifications per region and media type.
+ * Regions that aren't listed fall back to reading the age out of the
+ * certification itself (most countries use plain numbers like "12" or "16+").
+ */
+const CERTIFICATION_MATURITY: Record<
+	string,
+	Partial<Record<TMDBContentType, Record<string, MaturityLevel>>>
+> = {
+	US: {
+		movie: { G: "all", PG: "7+", "PG-13": "13+", R: "16+", "NC-17": "18+" },
+		tv: {
+			"TV-Y": "all",
+			"TV-G": "all",
+			"TV-Y7": "7+",
+			"TV-PG": "7+",
+			"TV-14": "13+",
+			"TV-MA": "18+",
+		},
+	},
+	GB: {
+		movie: { U: "all", PG: "7+", "12A": "13+", "12": "13+", "15": "16+" },
+		tv: { U: "all", PG: "7+", "12": "13+", "15": "16+" },
+	},
+	CA: {
+		movie: { G: "all", PG: "7+", "14A": "13+", "18A": "16+", R: "18+" },
+		tv: { C: "all", C8: "7+", G: "all", PG: "7+", "14+": "13+", "18+": "18+" },
+	},
+	AU: {
+		movie: { G: "all", PG: "7+", M: "13+", "MA15+": "16+", R18: "18+" },
+		tv: { P: "all", C: "all", G: "all", PG: "7+", M: "13+", "MA15+": "16+" },
+	},
+	FR: {
+		movie: { U: "all", TP: "all" },
+	},
+};
+
+/**
+ * Map an age to the lowest maturity level that covers it
+ */
+const maturityForAge = (age: number): MaturityLevel => {
+	if (age <= 6) return "all";
+	if (age <= 10) return "7+";
+	if (age <= 14) return "13+";
+	if (age <= 17) return "16+";
+	return "18+";
+};
+
+export const isMaturityLevel = (value: unknown): value is MaturityLevel =>
+	typeof value === "string" &&
+	(MATURITY_LEVELS as readonly string[]).includes(value);
+
+/**
+ * Translate a regional certification into a maturity level.
+ * Returns null for empty or unrecognised certifications.
+ */
+export const toMaturityLevel = (
+	mediaType: TMDBContentType,
+	region: string,
+	certification: string,
+): MaturityLevel | null => {
+	const value = certification.trim().toUpperCase();
+	if (!value) return null;
+
+	const known = CERTIFICATION_MATURITY[region]?.[mediaType]?.[value];
+	if (known) return known;
+
+	// "12", "+16", "16+", "FSK 16", "R18"... - the first number is the minimum age
+	const age = value.match(/\d{1,2}/)?.[0];
+	return age === undefined ? null : maturityForAge(parseInt(age, 10));
+};
+
+/**
+ * Pull every non-empty certification for a title out of TMDB, keyed by region.
+ * For movies, the theatrical release wins over premieres, digital releases etc.
+ */
+const getCertificationsByRegion = async (
+	mediaType: TMDBContentType,
+	id: number,
+): Promise<Map<string, { certification: string; descriptors: string[] }>> => {
+	const certifications = new Map<
+		string,
+		{ certification: string; descriptors: string[] }
+	>();
+
+	if (mediaType === "movie") {
+		const releases = await tmdbService.getMovieReleaseDates(id);
+
+		for (const country of releases.results) {
+			const rated = country.release_dates
+				.filter((release) => release.certification.trim() !== "")
+				// Type 3 is the theatrical release
+				.sort((a, b) => Number(b.type === 3) - Number(a.type === 3));
+
+			const release = rated[0];
+			if (release) {
+				certifications.set(country.iso_3166_1, {
+					certification: release.certification.trim(),
+					descriptors: release.descriptors,
+				});
+			}
+		}
+	} else {
+		const ratings = await tmdbService.getTVContentRatings(id);
+
+		for (const rating of ratings.results) {
+			if (rating.rating.trim() !== "") {
+				certifications.set(rating.iso_3166_1, {
+					certification: rating.rating.trim(),
+					descriptors: rating.descriptors,
+				});
+			}
+		}
+	}
+
+	return certifications;
+};
+
+/**
+ * Get a title's certification in a region
+ *
+ * If the title was never rated in that region we fall back to the
+ * DEFAULT_REGION rating, which TMDB has for most titles.
+ */
+export const getCertification = async (
+	mediaType: TMDBContentType,
+	id: number,
+	region: string,
+): Promise<TitleCertification> => {
+	const certifications = await getCertificationsByRegion(mediaType, id);
+
+	for (const candidate of [region, DEFAULT_REGION]) {
+		const entry = certifications.get(candidate);
+		if (entry) {
+			return {
+				region: candidate,
+				certification: entry.certification,
+				maturity: toMaturityLevel(mediaType, candidate, entry.certification),
+				descriptors: entry.descriptors,
+			};
+		}
+	}
+
+	return { region, certification: null, maturity: null, descriptors: [] };
+};
+
+/**
+ * Check a maturity level against a filter
+ */
+export const isWithinMaturity = (
+	maturity: MaturityLevel | null,
+	filter: MaturityFilter,
+): boolean => {
+	if (maturity === null) return filter.includeUnrated;
+
+	return (
+		MATURITY_LEVELS.indexOf(maturity) <=
+		MATURITY_LEVELS.indexOf(filter.maxMaturity)
+	);
+};
+
+/**
+ * Drop titles rated above the filter's maximum maturity.
+ *
+ * Certifications are looked up in parallel (and cached by the TMDB service).
+ * A title whose certification can't be fetched is treated as unrated.
+ */
+export const filterByMaturity = async <T extends { id: number }>(
+	mediaType: TMDBContentType,
+	items: T[],
+	filter: MaturityFilter,
+): Promise<T[]> => {
+	const results = await Promise.allSettled(
+		items.map((item) => getCertification(mediaType, item.id, filter.region)),
+	);
+
+	return items.filter((item, index) => {
+		const result = results[index];
+
+		if (result?.status !== "fulfilled") {
+			logger.warn(
+				result?.reason,
+				`Could not fetch certification for ${mediaType} ${item.id}`,
+			);
+			return filter.includeUnrated;
+		}
+
+		return isWithinMaturity(result.value.maturity, filter);
+	});
+};
+
+/**
+ * Apply a maturity filter to one page of TMDB results.
+ *
+ * Filtering happens after TMDB paginates, so a filtered page can hold fewer
+ * than 20 results. Page numbers and totals are left as TMDB reported them.
+ */
+export const applyMaturityFilter = async <T extends { id: number }>(
+	mediaType: TMDBContentType,
+	response: TMDBPaginatedResponse<T>,
+	filter: MaturityFilter | null,
+): Promise<TMDBPaginatedResponse<T>> => {
+	if (!filter) return response;
+
+	return {
+		...response,
+		results: await filterByMaturity(mediaType, response.results, filter),
+	};
+};
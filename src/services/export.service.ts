@@ -0,0 +1,287 @@
+import prisma from "../config/prisma.js";
+import type { DataExport, Prisma } from "../generated/prisma/client.js";
+import { toCsv } from "../utils/csv.js";
+import logger from "../utils/logger.js";
+
+/**
+ * Data Export Service
+ *
+ * Builds a "download my data" archive holding everything we store about a
+ * user: their account, settings, profiles, watchlist, favorites, watch
+ * history, show progress, custom lists and saved shared lists, across
+ * every profile.
+ *
+ * Small accounts are exported during the request. Bigger ones are built in
+ * the background, and the client polls the export until it's completed.
+ */
+
+// Accounts with more rows than this are exported in the background
+export const SYNC_EXPORT_MAX_RECORDS = 1000;
+
+// How long a finished archive can be downloaded for
+export const EXPORT_TTL_DAYS = 7;
+
+// An export still pending after this long was interrupted (e.g. by a
+// restart) and no longer stops the user from starting a new one
+const STALE_EXPORT_MINUTES = 30;
+
+export const EXPORT_COLLECTIONS = [
+	"profiles",
+	"watchlist",
+	"favorites",
+	"watchHistory",
+	"showProgress",
+	"lists",
+	"listItems",
+	"sharedSaves",
+] as const;
+
+export type ExportCollection = (typeof EXPORT_COLLECTIONS)[number];
+
+export type ExportStatus = "pending" | "processing" | "completed" | "failed";
+
+export interface ExportArchive extends Record<ExportCollection, object[]> {
+	exportedAt: string;
+	account: {
+		id: string;
+		email: string;
+		username: string | null;
+		imageUrl: string | null;
+		createdAt: Date;
+		updatedAt: Date;
+	};
+	settings: object | null;
+}
+
+/**
+ * An export without its archive, for status responses
+ */
+export type ExportSummary = Omit<DataExport, "archive" | "userId">;
+
+export const exportSummarySelect = {
+	id: true,
+	status: true,
+	recordCount: true,
+	error: true,
+	createdAt: true,
+	completedAt: true,
+	expiresAt: true,
+} satisfies Prisma.DataExportSelect;
+
+/**
+ * Count the rows an export of this user would contain
+ */
+export const countExportRecords = async (userId: string): Promise<number> => {
+	const counts = await Promise.all([
+		prisma.profile.count({ where: { userId } }),
+		prisma.watchlist.count({ where: { userId } }),
+		prisma.favorite.count({ where: { userId } }),
+		prisma.watchHistory.count({ where: { userId } }),
+		prisma.showProgress.count({ where: { userId } }),
+		prisma.list.count({ where: { userId } }),
+		prisma.listItem.count({ where: { list: { userId } } }),
+		prisma.sharedSave.count({ where: { userId } }),
+	]);
+
+	return counts.reduce((total, count) => total + count, 0);
+};
+
+/**
+ * Collect everything we store about a user.
+ * Rows keep their profileId so they can be matched up with `profiles`.
+ */
+export const buildExportArchive = async (
+	userId: string,
+): Promise<ExportArchive> => {
+	const [
+		user,
+		settings,
+		profiles,
+		watchlist,
+		favorites,
+		watchHistory,
+		showProgress,
+		lists,
+		listItems,
+		sharedSaves,
+	] = await Promise.all([
+		prisma.user.findUniqueOrThrow({ where: { id: userId } }),
+		prisma.userSettings.findUnique({
+			where: { userId },
+			omit: { id: true, userId: true },
+		}),
+		prisma.profile.findMany({
+			where: { userId },
+			omit: { userId: true },
+			orderBy: { createdAt: "asc" },
+		}),
+		prisma.watchlist.findMany({
+			where: { userId },
+			omit: { userId: true },
+			orderBy: { addedAt: "asc" },
+		}),
+		prisma.favorite.findMany({
+			where: { userId },
+			omit: { userId: true },
+			orderBy: { addedAt: "asc" },
+		}),
+		prisma.watchHistory.findMany({
+			where: { userId },
+			omit: { userId: true },
+			orderBy: { watchedAt: "asc" },
+		}),
+		prisma.showProgress.findMany({
+			where: { userId },
+			omit: { userId: true },
+			orderBy: [
+				{ tmdbShowId: "asc" },
+				{ seasonNumber: "asc" },
+				{ episodeNumber: "asc" },
+			],
+		}),
+		prisma.list.findMany({
+			where: { userId },
+			omit: { userId: true },
+			orderBy: { createdAt: "asc" },
+		}),
+		prisma.listItem.findMany({
+			where: { list: { userId } },
+			orderBy: [{ listId: "asc" }, { position: "asc" }],
+		}),
+		prisma.sharedSave.findMany({
+			where: { userId },
+			omit: { userId: true },
+			orderBy: { createdAt: "asc" },
+		}),
+	]);
+
+	return {
+		exportedAt: new Date().toISOString(),
+		account: {
+			id: user.id,
+			email: user.email,
+			username: user.username,
+			imageUrl: user.imageUrl,
+			createdAt: user.createdAt,
+			updatedAt: user.updatedAt,
+		},
+		settings,
+		profiles,
+		watchlist,
+		favorites,
+		watchHistory,
+		showProgress,
+		lists,
+		listItems,
+		sharedSaves,
+	};
+};
+
+/**
+ * Build an export's archive and store it.
+ *
+ * Never throws: a failure is recorded on the export instead, since this
+ * also runs in the background where nobody is waiting for an error.
+ */
+export const runExport = async (exportId: string): Promise<DataExport> => {
+	try {
+		const pending = await prisma.dataExport.update({
+			where: { id: exportId },
+			data: { status: "processing" },
+		});
+
+		const archive = await buildExportArchive(pending.userId);
+		const recordCount = EXPORT_COLLECTIONS.reduce(
+			(total, collection) => total + archive[collection].length,
+			0,
+		);
+		const completedAt = new Date();
+
+		return await prisma.dataExport.update({
+			where: { id: exportId },
+			data: {
+				status: "completed",
+				// Dates become ISO strings, the same as in API responses
+				archive: JSON.parse(JSON.stringify(archive)) as Prisma.InputJsonObject,
+				recordCount,
+				completedAt,
+				expiresAt: new Date(
+					completedAt.getTime() + EXPORT_TTL_DAYS * 24 * 60 * 60 * 1000,
+				),
+			},
+		});
+	} catch (error) {
+		logger.error(error, `Data export ${exportId} failed`);
+
+		return prisma.dataExport.update({
+			where: { id: exportId },
+			data: { status: "failed", error: "The export could not be generated" },
+		});
+	}
+};
+
+/**
+ * Find an export that's still being generated for this user
+ */
+export const findActiveExport = async (
+	userId: string,
+): Promise<ExportSummary | null> =>
+	prisma.dataExport.findFirst({
+		where: {
+			userId,
+			status: { in: ["pending", "processing"] },
+			createdAt: {
+				gte: new Date(Date.now() - STALE_EXPORT_MINUTES * 60 * 1000),
+			},
+		},
+		select: exportSummarySelect,
+	});
+
+/**
+ * Start a new export for a user
+ *
+ * Expired archives are cleared out first, so old exports don't pile up.
+ * Returns the export and whether it's still being generated.
+ */
+export const requestExport = async (
+	userId: string,
+): Promise<{ dataExport: ExportSummary; inBackground: boolean }> => {
+	await prisma.dataExport.deleteMany({
+		where: { userId, expiresAt: { lt: new Date() } },
+	});
+
+	const recordCount = await countExportRecords(userId);
+	const created = await prisma.dataExport.create({
+		data: { userId },
+		select: exportSummarySelect,
+	});
+
+	if (recordCount > SYNC_EXPORT_MAX_RECORDS) {
+		logger.info(
+			`Generating data export ${created.id} in the background (${recordCount} records)`,
+		);
+		// The export row can vanish mid-run if the account is deleted
+		runExport(created.id).catch((error) => {
+			logger.error(
+				error,
+				`Could not record result of data export ${created.id}`,
+			);
+		});
+		return { dataExport: created, inBackground: true };
+	}
+
+	const {
+		archive: _archive,
+		userId: _userId,
+		...dataExport
+	} = await runExport(created.id);
+	return { dataExport, inBackground: false };
+};
+
+/**
+ * Render one collection of an archive as CSV
+ */
+export const exportCollectionToCsv = (
+	archive: ExportArchive,
+	collection: ExportCollection,
+): string => toCsv(archive[collection] as Record<string, unknown>[]);
@@ -0,0 +1,275 @@
+import prisma from "../config/prisma.js";
+import type { ShowProgress } from "../generated/prisma/client.js";
+import type { TMDBTVShowDetails } from "../types/tmdb.types.js";
+import logger from "../utils/logger.js";
+import { tmdbService } from "./tmdb.service.js";
+
+/**
+ * Home Service
+ *
+ * Builds the personalised rows on the home screen. It combines what we
+ * store locally (watch history and show progress) with TMDB metadata so
+ * the client gets everything it needs to render a row in one request.
+ */
+
+// How many windows of shows getInProgressShows looks up before giving up
+const MAX_SHOW_WINDOWS = 3;
+
+export interface ContinueWatchingMovie {
+	type: "movie";
+	tmdbId: number;
+	title: string;
+	posterUrl: string | null;
+	backdropUrl: string | null;
+	progress: {
+		watchedSeconds: number;
+		runtimeSeconds: number | null;
+		percent: number | null;
+	};
+	lastWatchedAt: Date;
+}
+
+export interface ContinueWatchingShow {
+	type: "tv";
+	tmdbId: number;
+	title: string;
+	posterUrl: string | null;
+	backdropUrl: string | null;
+	nextEpisode: {
+		seasonNumber: number;
+		episodeNumber: number;
+		// true when the user stopped partway through this episode
+		resume: boolean;
+		watchedSeconds: number;
+	};
+	lastWatchedAt: Date;
+}
+
+export type ContinueWatchingItem = ContinueWatchingMovie | ContinueWatchingShow;
+
+interface EpisodeRef {
+	seasonNumber: number;
+	episodeNumber: number;
+}
+
+/**
+ * Find the next episode the user hasn't finished.
+ *
+ * Starts right after the given episode and walks forward, rolling over into
+ * the next season when the current one runs out. Specials (season 0) are
+ * ignored. Returns null when there is nothing left to watch.
+ */
+export const findNextEpisode = (
+	seasons: TMDBTVShowDetails["seasons"],
+	after: EpisodeRef,
+	completed: Set<string>,
+): EpisodeRef | null => {
+	const orderedSeasons = seasons
+		.filter((season) => season.season_number > 0 && season.episode_count > 0)
+		.sort((a, b) => a.season_number - b.season_number);
+
+	for (const season of orderedSeasons) {
+		if (season.season_number < after.seasonNumber) continue;
+
+		const firstEpisode =
+			season.season_number === after.seasonNumber ? after.episodeNumber + 1 : 1;
+
+		for (
+			let episodeNumber = firstEpisode;
+			episodeNumber <= season.episode_count;
+			episodeNumber++
+		) {
+			if (!completed.has(`${season.season_number}:${episodeNumber}`)) {
+				return { seasonNumber: season.season_number, episodeNumber };
+			}
+		}
+	}
+
+	return null;
+};
+
+/**
+ * The `limit` most recent partially watched movies.
+ * Uses the most recent history entry per movie and skips anything finished.
+ */
+const getInProgressMovies = async (
+	profileId: string,
+	since: Date,
+	limit: number,
+	language: string,
+): Promise<ContinueWatchingMovie[]> => {
+	const history = await prisma.watchHistory.findMany({
+		where: {
+			profileId,
+			contentType: "movie",
+			watchedAt: { gte: since },
+		},
+		orderBy: { watchedAt: "desc" },
+	});
+
+	// Keep only the latest entry for each movie
+	const latestByMovie = new Map<number, (typeof history)[number]>();
+	for (const entry of history) {
+		if (!latestByMovie.has(entry.tmdbId)) {
+			latestByMovie.set(entry.tmdbId, entry);
+		}
+	}
+
+	// Only the newest ones can make the row, so only they are looked up on TMDB
+	const candidates = [...latestByMovie.values()]
+		.filter((entry) => !entry.completed && (entry.duration ?? 0) > 0)
+		.slice(0, limit);
+
+	const results = await Promise.allSettled(
+		candidates.map(async (entry): Promise<ContinueWatchingMovie> => {
+			const movie = await tmdbService.getMovieDetails(entry.tmdbId, language);
+			const watchedSeconds = entry.duration ?? 0;
+			const runtimeSeconds = movie.runtime ? movie.runtime * 60 : null;
+
+			return {
+				type: "movie",
+				tmdbId: entry.tmdbId,
+				title: movie.title || entry.title,
+				posterUrl: tmdbService.getImageURL(
+					movie.poster_path ?? entry.posterPath,
+				),
+				backdropUrl: tmdbService.getImageURL(movie.backdrop_path, "w780"),
+				progress: {
+					watchedSeconds,
+					runtimeSeconds,
+					percent: runtimeSeconds
+						? Math.min(100, Math.round((watchedSeconds / runtimeSeconds) * 100))
+						: null,
+				},
+				lastWatchedAt: entry.watchedAt,
+			};
+		}),
+	);
+
+	return results.flatMap((result) => {
+		if (result.status === "fulfilled") return [result.value];
+		logger.warn(result.reason, "Skipping movie in continue watching");
+		return [];
+	});
+};
+
+/**
+ * Work out the next episode for a show the profile has been watching.
+ * Returns null when the show is fully watched.
+ */
+const toContinueWatchingShow = async (
+	profileId: string,
+	latest: ShowProgress,
+	language: string,
+): Promise<ContinueWatchingShow | null> => {
+	const [show, progress] = await Promise.all([
+		tmdbService.getTVShowDetails(latest.tmdbShowId, language),
+		prisma.showProgress.findMany({
+			where: {
+				profileId,
+				tmdbShowId: latest.tmdbShowId,
+				completed: true,
+			},
+			select: { seasonNumber: true, episodeNumber: true },
+		}),
+	]);
+
+	let nextEpisode: ContinueWatchingShow["nextEpisode"] | null = null;
+
+	if (!latest.completed) {
+		nextEpisode = {
+			seasonNumber: latest.seasonNumber,
+			episodeNumber: latest.episodeNumber,
+			resume: true,
+			watchedSeconds: latest.duration ?? 0,
+		};
+	} else {
+		const completed = new Set(
+			progress.map((p) => `${p.seasonNumber}:${p.episodeNumber}`),
+		);
+		const next = findNextEpisode(show.seasons, latest, completed);
+
+		if (next) {
+			nextEpisode = { ...next, resume: false, watchedSeconds: 0 };
+		}
+	}
+
+	if (!nextEpisode) return null;
+
+	return {
+		type: "tv",
+		tmdbId: latest.tmdbShowId,
+		title: show.name,
+		posterUrl: tmdbService.getImageURL(show.poster_path),
+		backdropUrl: tmdbService.getImageURL(show.backdrop_path, "w780"),
+		nextEpisode,
+		lastWatchedAt: latest.watchedAt,
+	};
+};
+
+/**
+ * The `limit` most recently watched TV shows that have an episode left,
+ * with the episode the user should watch next.
+ *
+ * Shows are looked up on TMDB a window of `limit` at a time, newest
+ * first, until there are enough, since fully watched shows are dropped.
+ * Only the first MAX_SHOW_WINDOWS windows are tried.
+ */
+const getInProgressShows = async (
+	profileId: string,
+	since: Date,
+	limit: number,
+	language: string,
+): Promise<ContinueWatchingShow[]> => {
+	const recent = await prisma.showProgress.findMany({
+		where: {
+			profileId,
+			watchedAt: { gte: since },
+		},
+		orderBy: { watchedAt: "desc" },
+		distinct: ["tmdbShowId"],
+	});
+
+	const shows: ContinueWatchingShow[] = [];
+	const end = Math.min(recent.length, limit * MAX_SHOW_WINDOWS);
+
+	for (let start = 0; start < end && shows.length < limit; start += limit) {
+		const results = await Promise.allSettled(
+			recent
+				.slice(start, start + limit)
+				.map((latest) => toContinueWatchingShow(profileId, latest, language)),
+		);
+
+		for (const result of results) {
+			if (result.status === "rejected") {
+				logger.warn(result.reason, "Skipping show in continue watching");
+			} else if (result.value) {
+				shows.push(result.value);
+			}
+		}
+	}
+
+	return shows.slice(0, limit);
+};
+
+/**
+ * Build the "Continue Watching" row for a viewing profile
+ *
+ * Anything the user hasn't touched in `maxAgeDays` days is left out,
+ * so the row doesn't fill up with things they've abandoned.
+ */
+export const getContinueWatching = async (
+	profileId: string,
+	options: { maxAgeDays: number; limit: number; language: string },
+): Promise<ContinueWatchingItem[]> => {
+	const since = new Date(Date.now() - options.maxAgeDays * 24 * 60 * 60 * 1000);
+
+	const [movies, shows] = await Promise.all([
+		getInProgressMovies(profileId, since, options.limit, options.language),
+		getInProgressShows(profileId, since, options.limit, options.language),
+	]);
+
+	return [...movies, ...shows]
+		.sort((a, b) => b.lastWatchedAt.getTime() - a.lastWatchedAt.getTime())
+		.slice(0, options.limit);
+};
@@ -0,0 +1,693 @@
+import prisma from "../config/prisma.js";
+import type { Prisma, Profile } from "../generated/prisma/client.js";
+import type {
+	TMDBContentType,
+	TMDBMovie,
+	TMDBTVShow,
+} from "../types/tmdb.types.js";
+import { parseCsv } from "../utils/csv.js";
+import logger from "../utils/logger.js";
+import { bulkAdd } from "./bulk.service.js";
+import { getTitleStatuses } from "./status.service.js";
+import { tmdbService } from "./tmdb.service.js";
+
+/**
+ * Import Service
+ *
+ * Brings a user's library over from another service, using the files
+ * those services let you export:
+ * - "letterboxd_watchlist": watchlist.csv from a Letterboxd export
+ * - "letterboxd_diary": diary.csv from a Letterboxd export
+ * - "imdb_list": any list, watchlist or ratings CSV exported from IMDb
+ * - "trakt": a JSON file from a Trakt export (watchlist, history, watched...)
+ *
+ * Every row is matched to a TMDB title: by TMDB ID when the file has one
+ * (Trakt), then by IMDb ID (IMDb, Trakt), then by searching for the title
+ * and year (Letterboxd, and anything the IDs didn't find). Matched rows
+ * are written to the watchlist, favorites or watch history; the rest are
+ * reported back with the reason they didn't match.
+ *
+ * A dry run does all the matching but writes nothing, so the client can
+ * show a preview before the user commits to it.
+ */
+
+export const IMPORT_FORMATS = [
+	"letterboxd_watchlist",
+	"letterboxd_diary",
+	"imdb_list",
+	"trakt",
+] as const;
+
+export type ImportFormat = (typeof IMPORT_FORMATS)[number];
+
+export const IMPORT_TARGETS = ["watchlist", "favorites", "history"] as const;
+
+export type ImportTarget = (typeof IMPORT_TARGETS)[number];
+
+// Bigger exports have to be split, so one request can't keep TMDB busy for long
+export const MAX_IMPORT_ROWS = 1000;
+
+// How many rows are matched against TMDB at the same time
+const MATCH_CONCURRENCY = 10;
+
+/**
+ * One title read out of an export file, before it's matched
+ */
+export interface ImportRow {
+	// Where the row was in the file, starting at 1 (the CSV header isn't counted)
+	row: number;
+	title: string;
+	year: number | null;
+	contentType: TMDBContentType;
+	tmdbId: number | null;
+	imdbId: string | null;
+	seasonNumber: number | null;
+	episodeNumber: number | null;
+	// When it was watched, for files that record that
+	watchedAt: Date | null;
+	// Why the row can't be imported, when that's known before matching
+	skipReason: string | null;
+}
+
+export type ImportMatchSource = "tmdb" | "imdb" | "search";
+
+export type ImportRowStatus = "created" | "duplicate";
+
+export interface ImportMatch {
+	row: number;
+	tmdbId: number;
+	contentType: TMDBContentType;
+	title: string;
+	posterPath: string | null;
+	seasonNumber: number | null;
+	episodeNumber: number | null;
+	watchedAt: Date | null;
+	matchedBy: ImportMatchSource;
+	// On a dry run, what would happen to the row
+	status: ImportRowStatus;
+}
+
+export interface ImportUnmatched {
+	row: number;
+	title: string;
+	year: number | null;
+	reason: string;
+}
+
+export interface ImportReport {
+	format: ImportFormat;
+	target: ImportTarget;
+	dryRun: boolean;
+	summary: {
+		rows: number;
+		matched: number;
+		unmatched: number;
+		created: number;
+		duplicate: number;
+	};
+	matched: ImportMatch[];
+	unmatched: ImportUnmatched[];
+}
+
+type MatchedTitle = Omit<ImportMatch, "row" | "watchedAt" | "status">;
+
+// ==================== READING FILES ====================
+
+const parseYear = (value: unknown): number | null => {
+	const year =
+		typeof value === "number" ? value : parseInt(String(value ?? ""), 10);
+	return Number.isInteger(year) && year > 1800 && year < 3000 ? year : null;
+};
+
+const parseDate = (value: unknown): Date | null => {
+	if (typeof value !== "string" || value.trim() === "") return null;
+
+	const date = new Date(value.trim());
+	return Number.isNaN(date.getTime()) ? null : date;
+};
+
+// IMDb IDs look like "tt0137523"; anything else would be sent to TMDB as is
+const parseImdbId = (value: unknown): string | null => {
+	if (typeof value !== "string") return null;
+
+	const imdbId = value.trim();
+	return /^tt\d+$/.test(imdbId) ? imdbId : null;
+};
+
+const parseCount = (value: unknown): number | null =>
+	typeof value === "number" && Number.isInteger(value) && value >= 0
+		? value
+		: null;
+
+const emptyRow = (row: number) => ({
+	row,
+	year: null,
+	tmdbId: null,
+	imdbId: null,
+	seasonNumber: null,
+	episodeNumber: null,
+	watchedAt: null,
+	skipReason: null,
+});
+
+/**
+ * Check a CSV export has the columns we read from it
+ */
+const missingColumns = (
+	records: Record<string, string>[],
+	columns: string[],
+): string | null => {
+	const first = records[0];
+	const missing = first ? columns.filter((column) => !(column in first)) : [];
+
+	return missing.length > 0
+		? `The file is missing these columns: ${missing.join(", ")}`
+		: null;
+};
+
+/**
+ * Letterboxd only has films. Diary rows are dated with when the film
+ * was watched; watchlist rows with when it was added, which we don't keep.
+ */
+const readLetterboxd = (
+	content: string,
+	withWatchDates: boolean,
+): ImportRow[] | string => {
+	const records = parseCsv(content);
+	const error = missingColumns(records, ["Name", "Year"]);
+	if (error) return error;
+
+	return records.map(
+		(record, index): ImportRow => ({
+			...emptyRow(index + 1),
+			title: record.Name?.trim() ?? "",
+			year: parseYear(record.Year),
+			contentType: "movie",
+			watchedAt: withWatchDates
+				? parseDate(record["Watched Date"] || record.Date)
+				: null,
+		}),
+	);
+};
+
+// IMDb title types we can't import at all
+const UNSUPPORTED_IMDB_TYPES = ["video game", "videogame", "podcast"];
+
+/**
+ * IMDb list CSVs have a "Const" column holding the IMDb ID, and a title
+ * type like "Movie", "TV Series" or "TV Episode" ("movie", "tvSeries"...
+ * in newer exports).
+ */
+const readImdbList = (content: string): ImportRow[] | string => {
+	const records = parseCsv(content);
+	const error = missingColumns(records, ["Const", "Title"]);
+	if (error) return error;
+
+	return records.map((record, index): ImportRow => {
+		const type = (record["Title Type"] ?? "").toLowerCase();
+		const unsupported = UNSUPPORTED_IMDB_TYPES.some((name) =>
+			type.includes(name),
+		);
+
+		return {
+			...emptyRow(index + 1),
+			title: record.Title?.trim() ?? "",
+			year: parseYear(record.Year),
+			contentType: /series|episode/.test(type) ? "tv" : "movie",
+			imdbId: parseImdbId(record.Const),
+			skipReason: unsupported
+				? `IMDb titles of type "${record["Title Type"]}" can't be imported`
+				: null,
+		};
+	});
+};
+
+interface TraktTitle {
+	title?: unknown;
+	year?: unknown;
+	ids?: { tmdb?: unknown; imdb?: unknown };
+}
+
+/**
+ * Trakt files are arrays of entries like
+ * { type: "movie", movie: {...}, watched_at } from history, or
+ * { type: "show", show: {...}, listed_at } from the watchlist.
+ * "watched" files leave out the type and use last_watched_at.
+ * Seasons are imported as their show.
+ */
+const readTrakt = (content: string): ImportRow[] | string => {
+	let entries: unknown;
+
+	try {
+		entries = JSON.parse(content);
+	} catch {
+		return "The file is not valid JSON";
+	}
+
+	if (!Array.isArray(entries)) {
+		return "Trakt files must contain a JSON array";
+	}
+
+	return entries.map(
+		(entry: Record<string, unknown> | null, index): ImportRow => {
+			const movie = entry?.movie as TraktTitle | undefined;
+			const show = entry?.show as TraktTitle | undefined;
+			const episode = entry?.episode as
+				| { season?: unknown; number?: unknown }
+				| undefined;
+			const item = movie ?? show;
+
+			const tmdbId = parseCount(item?.ids?.tmdb);
+
+			return {
+				...emptyRow(index + 1),
+				title: typeof item?.title === "string" ? item.title.trim() : "",
+				year: parseYear(item?.year),
+				contentType: movie ? "movie" : "tv",
+				tmdbId: tmdbId || null,
+				imdbId: parseImdbId(item?.ids?.imdb),
+				seasonNumber: movie ? null : parseCount(episode?.season),
+				episodeNumber: movie ? null : parseCount(episode?.number),
+				watchedAt: parseDate(entry?.watched_at ?? entry?.last_watched_at),
+			};
+		},
+	);
+};
+
+/**
+ * Read an export file into rows.
+ * Returns a message instead when the file isn't in the expected format.
+ */
+export const parseImportFile = (
+	format: ImportFormat,
+	content: string,
+): ImportRow[] | string => {
+	const rows =
+		format === "letterboxd_watchlist"
+			? readLetterboxd(content, false)
+			: format === "letterboxd_diary"
+				? readLetterboxd(content, true)
+				: format === "imdb_list"
+					? readImdbList(content)
+					: readTrakt(content);
+
+	if (typeof rows === "string") return rows;
+
+	if (rows.length === 0) return "The file has no rows to import";
+
+	if (rows.length > MAX_IMPORT_ROWS) {
+		return `Files can have at most ${MAX_IMPORT_ROWS} rows; split larger exports into several imports`;
+	}
+
+	return rows;
+};
+
+/**
+ * Where a file's rows go when the client doesn't say.
+ * Trakt files are history when they record watches, otherwise a watchlist.
+ */
+export const defaultImportTarget = (
+	format: ImportFormat,
+	rows: ImportRow[],
+): ImportTarget => {
+	switch (format) {
+		case "letterboxd_diary":
+			return "history";
+		case "trakt":
+			return rows.some((row) => row.watchedAt) ? "history" : "watchlist";
+		default:
+			return "watchlist";
+	}
+};
+
+// ==================== MATCHING ====================
+
+const yearOf = (item: TMDBMovie | TMDBTVShow): number | null =>
+	parseYear(
+		("release_date" in item ? item.release_date : item.first_air_date)?.slice(
+			0,
+			4,
+		),
+	);
+
+const nameOf = (item: TMDBMovie | TMDBTVShow): string =>
+	"title" in item ? item.title : item.name;
+
+const normalizeTitle = (title: string): string =>
+	title
+		.toLowerCase()
+		.normalize("NFKD")
+		.replace(/[\u0300-\u036f]/g, "")
+		.replace(/[^a-z0-9]+/g, " ")
+		.trim();
+
+const toMatch = (
+	row: ImportRow,
+	item: TMDBMovie | TMDBTVShow,
+	matchedBy: ImportMatchSource,
+	episode?: { seasonNumber: number; episodeNumber: number },
+): MatchedTitle => ({
+	tmdbId: item.id,
+	contentType: row.contentType,
+	title: nameOf(item),
+	posterPath: item.poster_path,
+	seasonNumber: episode?.seasonNumber ?? row.seasonNumber,
+	episodeNumber: episode?.episodeNumber ?? row.episodeNumber,
+	matchedBy,
+});
+
+/**
+ * Search TMDB for a title, preferring an exact title match.
+ * Release years often differ by one between sites (festival vs. cinema
+ * release), so when nothing matches the year exactly, a result one year
+ * either side is accepted.
+ */
+const searchTitle = async (
+	row: ImportRow,
+): Promise<TMDBMovie | TMDBTVShow | null> => {
+	const wanted = normalizeTitle(row.title);
+	const pick = (results: (TMDBMovie | TMDBTVShow)[]) =>
+		results.find((item) => normalizeTitle(nameOf(item)) === wanted) ??
+		results[0] ??
+		null;
+
+	if (row.year === null) {
+		const { results } = await tmdbService.searchByTitle(
+			row.title,
+			row.contentType,
+		);
+		return pick(results);
+	}
+
+	const exact = await tmdbService.searchByTitle(
+		row.title,
+		row.contentType,
+		row.year,
+	);
+	if (exact.results.length > 0) return pick(exact.results);
+
+	const { results } = await tmdbService.searchByTitle(
+		row.title,
+		row.contentType,
+	);
+	const year = row.year;
+
+	return pick(
+		results.filter((item) => {
+			const released = yearOf(item);
+			return released !== null && Math.abs(released - year) <= 1;
+		}),
+	);
+};
+
+/**
+ * Match one row to a TMDB title.
+ * Returns why it couldn't be matched instead.
+ */
+const matchRow = async (row: ImportRow): Promise<MatchedTitle | string> => {
+	if (row.skipReason) return row.skipReason;
+
+	if (row.tmdbId !== null) {
+		try {
+			const details =
+				row.contentType === "movie"
+					? await tmdbService.getMovieDetails(row.tmdbId)
+					: await tmdbService.getTVShowDetails(row.tmdbId);
+			return toMatch(row, details, "tmdb");
+		} catch {
+			// Fall through to the other IDs, in case the TMDB one is stale
+		}
+	}
+
+	if (row.imdbId !== null) {
+		const found = await tmdbService.findByExternalId(row.imdbId, "imdb_id");
+		const title =
+			row.contentType === "movie"
+				? found.movie_results[0]
+				: found.tv_results[0];
+		if (title) return toMatch(row, title, "imdb");
+
+		const episode = found.tv_episode_results[0];
+		if (row.contentType === "tv" && episode) {
+			const show = await tmdbService.getTVShowDetails(episode.show_id);
+			return toMatch(row, show, "imdb", {
+				seasonNumber: episode.season_number,
+				episodeNumber: episode.episode_number,
+			});
+		}
+	}
+
+	if (!row.title) return "The row has no title or ID to match";
+
+	const result = await searchTitle(row);
+	if (result) return toMatch(row, result, "search");
+
+	const kind = row.contentType === "movie" ? "movie" : "TV show";
+	return row.year === null
+		? `No ${kind} called "${row.title}" on TMDB`
+		: `No ${kind} called "${row.title}" from around ${row.year} on TMDB`;
+};
+
+/**
+ * Match every row, a few at a time.
+ * Rows for the same title (e.g. rewatches in a diary) share one lookup.
+ */
+const matchRows = async (
+	rows: ImportRow[],
+): Promise<(MatchedTitle | string)[]> => {
+	const lookups = new Map<string, Promise<MatchedTitle | string>>();
+	const matches: (MatchedTitle | string)[] = [];
+
+	const lookup = (row: ImportRow) => {
+		const key = [
+			row.contentType,
+			row.tmdbId,
+			row.imdbId,
+			row.title,
+			row.year,
+		].join("|");
+
+		let match = lookups.get(key);
+		if (!match) {
+			match = matchRow(row).catch((error) => {
+				logger.warn(error, `Could not match import row ${row.row}`);
+				return "TMDB could not be reached to match this row";
+			});
+			lookups.set(key, match);
+		}
+
+		// Episode numbers can differ between rows sharing a lookup
+		return match.then((result) =>
+			typeof result === "string" || row.seasonNumber === null
+				? result
+				: {
+						...result,
+						seasonNumber: row.seasonNumber,
+						episodeNumber: row.episodeNumber,
+					},
+		);
+	};
+
+	for (let start = 0; start < rows.length; start += MATCH_CONCURRENCY) {
+		matches.push(
+			...(await Promise.all(
+				rows.slice(start, start + MATCH_CONCURRENCY).map(lookup),
+			)),
+		);
+	}
+
+	return matches;
+};
+
+// ==================== WRITING ====================
+
+type PendingMatch = Omit<ImportMatch, "status">;
+
+const watchKey = (
+	item: Pick<
+		ImportMatch,
+		"tmdbId" | "contentType" | "seasonNumber" | "episodeNumber"
+	>,
+	watchedAt: Date | null,
+) =>
+	[
+		item.contentType,
+		item.tmdbId,
+		item.seasonNumber,
+		item.episodeNumber,
+		watchedAt?.getTime() ?? "",
+	].join(":");
+
+/**
+ * Work out which matches are already in the watch history.
+ * Dated rows are duplicates of an entry watched at the same moment;
+ * undated ones of any completed entry for the same title or episode.
+ */
+const findRecordedWatches = async (
+	client: Prisma.TransactionClient,
+	profileId: string,
+	matches: PendingMatch[],
+): Promise<boolean[]> => {
+	const existing = await client.watchHistory.findMany({
+		where: {
+			profileId,
+			tmdbId: { in: matches.map((match) => match.tmdbId) },
+		},
+		select: {
+			tmdbId: true,
+			contentType: true,
+			seasonNumber: true,
+			episodeNumber: true,
+			watchedAt: true,
+			completed: true,
+		},
+	});
+
+	const recorded = new Set(
+		existing.flatMap((entry) => {
+			const item = {
+				...entry,
+				contentType: entry.contentType as TMDBContentType,
+			};
+			return entry.completed
+				? [watchKey(item, entry.watchedAt), watchKey(item, null)]
+				: [watchKey(item, entry.watchedAt)];
+		}),
+	);
+
+	return matches.map((match) => {
+		const key = watchKey(match, match.watchedAt);
+		if (recorded.has(key)) return true;
+
+		// Repeated rows in the same file only count once
+		recorded.add(key);
+		return false;
+	});
+};
+
+/**
+ * Add matched rows to the watch history as completed watches
+ */
+const importHistory = async (
+	profile: Profile,
+	matches: PendingMatch[],
+	dryRun: boolean,
+): Promise<ImportRowStatus[]> =>
+	prisma.$transaction(async (tx) => {
+		const recorded = await findRecordedWatches(tx, profile.id, matches);
+		const importedAt = new Date();
+
+		if (!dryRun) {
+			await tx.watchHistory.createMany({
+				data: matches
+					.filter((_, index) => !recorded[index])
+					.map((match) => ({
+						userId: profile.userId,
+						profileId: profile.id,
+						tmdbId: match.tmdbId,
+						contentType: match.contentType,
+						title: match.title,
+						posterPath: match.posterPath,
+						completed: true,
+						seasonNumber: match.seasonNumber,
+						episodeNumber: match.episodeNumber,
+						watchedAt: match.watchedAt ?? importedAt,
+					})),
+			});
+		}
+
+		return recorded.map((isRecorded) => (isRecorded ? "duplicate" : "created"));
+	});
+
+/**
+ * Add matched rows to the watchlist or favorites, in file order.
+ * Episodes are added as their show.
+ */
+const importCollection = async (
+	collection: "watchlist" | "favorites",
+	profile: Profile,
+	matches: PendingMatch[],
+	dryRun: boolean,
+): Promise<ImportRowStatus[]> => {
+	if (!dryRun) {
+		const { results } = await bulkAdd(collection, profile, matches);
+		return results.map(({ status }) =>
+			status === "created" ? "created" : "duplicate",
+		);
+	}
+
+	const statuses = await getTitleStatuses(profile.id, matches);
+	const seen = new Set<string>();
+
+	return statuses.map((status) => {
+		const key = `${status.contentType}:${status.tmdbId}`;
+		const present =
+			collection === "watchlist" ? status.inWatchlist : status.isFavorite;
+
+		if (present || seen.has(key)) return "duplicate";
+		seen.add(key);
+		return "created";
+	});
+};
+
+/**
+ * Match an export file's rows and import them into a profile.
+ * With dryRun, nothing is written and the statuses say what would happen.
+ */
+export const importRows = async (
+	profile: Profile,
+	format: ImportFormat,
+	target: ImportTarget,
+	rows: ImportRow[],
+	dryRun: boolean,
+): Promise<ImportReport> => {
+	const results = await matchRows(rows);
+
+	const pending: PendingMatch[] = [];
+	const unmatched: ImportUnmatched[] = [];
+
+	rows.forEach((row, index) => {
+		const result = results[index];
+
+		if (result === undefined || typeof result === "string") {
+			unmatched.push({
+				row: row.row,
+				title: row.title,
+				year: row.year,
+				reason: result ?? "The row could not be matched",
+			});
+		} else {
+			pending.push({ ...result, row: row.row, watchedAt: row.watchedAt });
+		}
+	});
+
+	const statuses =
+		pending.length === 0
+			? []
+			: target === "history"
+				? await importHistory(profile, pending, dryRun)
+				: await importCollection(target, profile, pending, dryRun);
+
+	const matched = pending.map(
+		(match, index): ImportMatch => ({
+			...match,
+			status: statuses[index] ?? "duplicate",
+		}),
+	);
+	const created = matched.filter((match) => match.status === "created").length;
+
+	return {
+		format,
+		target,
+		dryRun,
+		summary: {
+			rows: rows.length,
+			matched: matched.length,
+			unmatched: unmatched.length,
+			created,
+			duplicate: matched.length - created,
+		},
+		matched,
+		unmatched,
+	};
+};
@@ -0,0 +1,143 @@
+import prisma from "../config/prisma.js";
+import type { List, ListItem, Prisma } from "../generated/prisma/client.js";
+import type { AddListItemInput } from "../schemas/list.schema.js";
+
+/**
+ * List Service
+ *
+ * Custom lists sit alongside the watchlist: a profile can make as many as
+ * it likes ("Halloween marathon", "Best of 2024"...) and put titles on them
+ * in any order.
+ *
+ * Items are ordered by `position`, which always runs 0, 1, 2... with no
+ * gaps; adding, removing and reordering items keeps it that way.
+ */
+
+export const MAX_LISTS_PER_PROFILE = 100;
+export const MAX_ITEMS_PER_LIST = 500;
+
+export type ListSummary = List & { itemCount: number; saveCount: number };
+
+const listSummaryInclude = {
+	_count: { select: { items: true, saves: true } },
+} satisfies Prisma.ListInclude;
+
+const toListSummary = ({
+	_count,
+	...list
+}: Prisma.ListGetPayload<{
+	include: typeof listSummaryInclude;
+}>): ListSummary => ({
+	...list,
+	itemCount: _count.items,
+	saveCount: _count.saves,
+});
+
+/**
+ * Get a profile's lists, most recently changed first
+ */
+export const getLists = async (profileId: string): Promise<ListSummary[]> => {
+	const lists = await prisma.list.findMany({
+		where: { profileId },
+		include: listSummaryInclude,
+		orderBy: { updatedAt: "desc" },
+	});
+
+	return lists.map(toListSummary);
+};
+
+/**
+ * Get one list with its item and save counts
+ */
+export const getListSummary = async (listId: string): Promise<ListSummary> =>
+	toListSummary(
+		await prisma.list.findUniqueOrThrow({
+			where: { id: listId },
+			include: listSummaryInclude,
+		}),
+	);
+
+/**
+ * Get a list's items in order
+ */
+export const getListItems = async (listId: string): Promise<ListItem[]> =>
+	prisma.listItem.findMany({
+		where: { listId },
+		orderBy: { position: "asc" },
+	});
+
+/**
+ * Add a title to a list
+ *
+ * Items at or after the requested position move down one place to make
+ * room. A position past the end just appends.
+ */
+export const addListItem = async (
+	listId: string,
+	{ position, posterPath, note, ...item }: AddListItemInput,
+): Promise<ListItem> =>
+	prisma.$transaction(async (tx) => {
+		const count = await tx.listItem.count({ where: { listId } });
+		const at = Math.min(position ?? count, count);
+
+		await tx.listItem.updateMany({
+			where: { listId, position: { gte: at } },
+			data: { position: { increment: 1 } },
+		});
+
+		const created = await tx.listItem.create({
+			data: {
+				...item,
+				listId,
+				posterPath: posterPath ?? null,
+				note: note ?? null,
+				position: at,
+			},
+		});
+
+		// Adding an item counts as changing the list
+		await tx.list.update({
+			where: { id: listId },
+			data: { updatedAt: new Date() },
+		});
+
+		return created;
+	});
+
+/**
+ * Remove an item from its list, closing the gap it leaves
+ */
+export const removeListItem = async (item: ListItem): Promise<void> => {
+	await prisma.$transaction([
+		prisma.listItem.delete({ where: { id: item.id } }),
+		prisma.listItem.updateMany({
+			where: { listId: item.listId, position: { gt: item.position } },
+			data: { position: { decrement: 1 } },
+		}),
+		prisma.list.update({
+			where: { id: item.listId },
+			data: { updatedAt: new Date() },
+		}),
+	]);
+};
+
+/**
+ * Put a list's items in a new order.
+ * `itemIds` must hold every item on the list exactly once.
+ */
+export const reorderListItems = async (
+	listId: string,
+	itemIds: string[],
+): Promise<ListItem[]> => {
+	await prisma.$transaction([
+		...itemIds.map((id, position) =>
+			prisma.listItem.update({ where: { id, listId }, data: { position } }),
+		),
+		prisma.list.update({
+			where: { id: listId },
+			data: { updatedAt: new Date() },
+		}),
+	]);
+
+	return getListItems(listId);
+};
@@ -0,0 +1,76 @@
+import prisma from "../config/prisma.js";
+import type { Profile, User } from "../generated/prisma/client.js";
+import logger from "../utils/logger.js";
+import type { MaturityLevel } from "./certification.service.js";
+
+/**
+ * Profile Service
+ *
+ * One account can hold several viewing profiles (think "Alex", "Sam" and
+ * "Kids" sharing a subscription). Every account has a default profile,
+ * which is used whenever a request doesn't pick one.
+ */
+
+export const MAX_PROFILES_PER_USER = 5;
+
+// Kids profiles can't be set above this, and start out at it
+export const KIDS_MATURITY_LIMITS: readonly MaturityLevel[] = ["all", "7+"];
+export const DEFAULT_KIDS_MATURITY_LIMIT: MaturityLevel = "7+";
+
+/**
+ * Get the user's default profile, creating it on first use
+ *
+ * Accounts created before profiles existed got a default profile in the
+ * migration; this covers everyone who signs up afterwards.
+ */
+export const getDefaultProfile = async (
+	user: Pick<User, "id" | "username">,
+): Promise<Profile> => {
+	const existing = await prisma.profile.findFirst({
+		where: { userId: user.id },
+		orderBy: [{ isDefault: "desc" }, { createdAt: "asc" }],
+	});
+
+	if (existing) return existing;
+
+	logger.info(`Creating default profile for user: ${user.id}`);
+
+	// upsert rather than create so two simultaneous first requests
+	// end up sharing one profile instead of failing on the unique name
+	const name = user.username || "Main";
+	return prisma.profile.upsert({
+		where: { userId_name: { userId: user.id, name } },
+		create: { userId: user.id, name, isDefault: true },
+		update: {},
+	});
+};
+
+/**
+ * Get all profiles on an account, default profile first
+ */
+export const getProfiles = async (userId: string): Promise<Profile[]> =>
+	prisma.profile.findMany({
+		where: { userId },
+		orderBy: [{ isDefault: "desc" }, { createdAt: "asc" }],
+	});
+
+/**
+ * Make a profile the account's default, unsetting the previous one
+ */
+export const setDefaultProfile = async (
+	userId: string,
+	profileId: string,
+): Promise<Profile> => {
+	const [, profile] = await prisma.$transaction([
+		prisma.profile.updateMany({
+			where: { userId, isDefault: true },
+			data: { isDefault: false },
+		}),
+		prisma.profile.update({
+			where: { id: profileId },
+			data: { isDefault: true },
+		}),
+	]);
+
+	return profile;
+};
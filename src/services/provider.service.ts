@@ -0,0 +1,90 @@
+import type {
+	TMDBContentType,
+	TMDBWatchProvider,
+} from "../types/tmdb.types.js";
+import { tmdbService } from "./tmdb.service.js";
+
+/**
+ * Watch Provider Service
+ *
+ * Answers "where can I actually stream this?". It picks the user's region
+ * out of TMDB's per-country data and tidies up the provider entries so the
+ * client can render logos straight away.
+ */
+
+export interface WatchProvider {
+	id: number;
+	name: string;
+	logoUrl: string | null;
+	displayPriority: number;
+}
+
+export interface TitleWatchProviders {
+	id: number;
+	region: string;
+	link: string | null;
+	flatrate: WatchProvider[];
+	free: WatchProvider[];
+	ads: WatchProvider[];
+	rent: WatchProvider[];
+	buy: WatchProvider[];
+	availableRegions: string[];
+}
+
+const toWatchProviders = (
+	providers: TMDBWatchProvider[] | undefined,
+): WatchProvider[] =>
+	(providers ?? [])
+		.map((provider) => ({
+			id: provider.provider_id,
+			name: provider.provider_name,
+			logoUrl: tmdbService.getImageURL(provider.logo_path, "w92"),
+			displayPriority: provider.display_priority,
+		}))
+		.sort((a, b) => a.displayPriority - b.displayPriority);
+
+/**
+ * Get streaming, rental and purchase options for a title in one region.
+ * Every list is empty when the title isn't available there.
+ */
+export const getTitleWatchProviders = async (
+	mediaType: TMDBContentType,
+	id: number,
+	region: string,
+): Promise<TitleWatchProviders> => {
+	const providers = await tmdbService.getWatchProviders(mediaType, id);
+	const options = providers.results[region];
+
+	return {
+		id,
+		region,
+		link: options?.link ?? null,
+		flatrate: toWatchProviders(options?.flatrate),
+		free: toWatchProviders(options?.free),
+		ads: toWatchProviders(options?.ads),
+		rent: toWatchProviders(options?.rent),
+		buy: toWatchProviders(options?.buy),
+		availableRegions: Object.keys(providers.results).sort(),
+	};
+};
+
+/**
+ * Get every provider available in a region, ordered the way TMDB
+ * recommends displaying them there
+ */
+export const getProviderCatalog = async (
+	mediaType: TMDBContentType,
+	region: string,
+): Promise<WatchProvider[]> => {
+	const catalog = await tmdbService.getWatchProviderCatalog(mediaType, region);
+
+	return catalog
+		.map((provider) => ({
+			id: provider.provider_id,
+			name: provider.provider_name,
+			logoUrl: tmdbService.getImageURL(provider.logo_path, "w92"),
+			displayPriority:
+				provider.display_priorities[region] ?? provider.display_priority,
+		}))
+		.sort((a, b) => a.displayPriority - b.displayPriority);
+};
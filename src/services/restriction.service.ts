@@ -0,0 +1,263 @@
+import type { Profile } from "../generated/prisma/client.js";
+import type {
+	TMDBContentType,
+	TMDBPaginatedResponse,
+} from "../types/tmdb.types.js";
+import {
+	filterByMaturity,
+	getCertification,
+	isMaturityLevel,
+	isWithinMaturity,
+	MATURITY_LEVELS,
+	type MaturityFilter,
+	type MaturityLevel,
+} from "./certification.service.js";
+import { tmdbService } from "./tmdb.service.js";
+
+/**
+ * Content Restriction Service
+ *
+ * Decides what a viewing profile is allowed to see. Kids profiles get the
+ * strictest treatment: no adult titles, only family-friendly genres, and
+ * nothing rated above their maturity limit. Other profiles can still set a
+ * maturity limit below "18+", which is enforced the same way.
+ *
+ * These rules are applied on the server, so a client can't get around them
+ * by leaving out a query param.
+ *
+ * Genres the user has hidden in their settings are dropped from lists here
+ * too. Unlike the profile rules, they don't block opening a title directly.
+ */
+
+export interface ContentRestrictions {
+	maturity: MaturityFilter | null;
+	// When set, titles must have at least one of these genres
+	allowedGenreIds: readonly number[] | null;
+	// When set, titles with any of these genres are left out of lists
+	hiddenGenreIds: readonly number[] | null;
+	// Drop titles TMDB flags as adult
+	hideAdult: boolean;
+}
+
+// Restrictions for each media type, for collections that mix movies and TV
+export type MixedContentRestrictions = Record<
+	TMDBContentType,
+	ContentRestrictions | null
+>;
+
+// How many saved titles are checked against restrictions at once
+const TITLE_CHECK_CONCURRENCY = 10;
+
+/**
+ * Genres a kids profile may browse: Animation, Family and (for TV) Kids
+ */
+export const KIDS_GENRE_IDS: Record<TMDBContentType, readonly number[]> = {
+	movie: [16, 10751],
+	tv: [16, 10751, 10762],
+};
+
+/**
+ * Pick the stricter of two maturity levels
+ */
+const stricterMaturity = (
+	a: MaturityLevel,
+	b: MaturityLevel | undefined,
+): MaturityLevel =>
+	b !== undefined && MATURITY_LEVELS.indexOf(b) < MATURITY_LEVELS.indexOf(a)
+		? b
+		: a;
+
+/**
+ * Check whether a profile has limits of its own: it's a kids profile, or
+ * its maturity limit is below "18+"
+ */
+export const isRestrictedProfile = (profile: Profile | undefined): boolean =>
+	profile !== undefined &&
+	(profile.isKids ||
+		(isMaturityLevel(profile.maturityLimit) &&
+			profile.maturityLimit !== "18+"));
+
+/**
+ * Work out the restrictions for a request
+ *
+ * `requested` is the maturity filter the client asked for in the query
+ * string. A profile's own limit always wins when it's stricter.
+ * `region` is where certifications are checked for restricted profiles.
+ * It must come from the account, not the request, or a client could pick
+ * a country with looser ratings to get past the profile's limit.
+ * Returns null when nothing needs filtering.
+ */
+export const getContentRestrictions = (
+	mediaType: TMDBContentType,
+	profile: Profile | undefined,
+	requested: MaturityFilter | null,
+	region: string,
+	hiddenGenreIds: readonly number[] = [],
+): ContentRestrictions | null => {
+	const profileLimit =
+		profile && isMaturityLevel(profile.maturityLimit)
+			? profile.maturityLimit
+			: "18+";
+	const isKids = profile?.isKids ?? false;
+	const hidden = hiddenGenreIds.length > 0 ? hiddenGenreIds : null;
+
+	if (!isKids && profileLimit === "18+") {
+		return requested || hidden
+			? {
+					maturity: requested,
+					allowedGenreIds: null,
+					hiddenGenreIds: hidden,
+					hideAdult: false,
+				}
+			: null;
+	}
+
+	return {
+		maturity: {
+			maxMaturity: stricterMaturity(profileLimit, requested?.maxMaturity),
+			region,
+			// Kids never see unrated titles, since we can't vouch for them
+			includeUnrated: !isKids && (requested?.includeUnrated ?? false),
+		},
+		allowedGenreIds: isKids ? KIDS_GENRE_IDS[mediaType] : null,
+		hiddenGenreIds: hidden,
+		hideAdult: isKids,
+	};
+};
+
+/**
+ * Drop the TMDB titles (of one media type) that the restrictions don't allow
+ */
+export const filterRestrictedResults = async <
+	T extends { id: number; genre_ids: number[]; adult?: boolean },
+>(
+	mediaType: TMDBContentType,
+	items: T[],
+	restrictions: ContentRestrictions,
+): Promise<T[]> => {
+	const { allowedGenreIds, hiddenGenreIds, hideAdult, maturity } = restrictions;
+
+	// Cheap checks first, so fewer certifications have to be looked up
+	const candidates = items.filter(
+		(item) =>
+			!(hideAdult && item.adult) &&
+			(!allowedGenreIds ||
+				item.genre_ids.some((id) => allowedGenreIds.includes(id))) &&
+			!hiddenGenreIds?.some((id) => item.genre_ids.includes(id)),
+	);
+
+	return maturity
+		? filterByMaturity(mediaType, candidates, maturity)
+		: candidates;
+};
+
+/**
+ * Apply restrictions to one page of TMDB results.
+ *
+ * As with the maturity filter, this runs after TMDB paginates, so a page
+ * can come back shorter than usual.
+ */
+export const applyContentRestrictions = async <
+	T extends { id: number; genre_ids: number[]; adult?: boolean },
+>(
+	mediaType: TMDBContentType,
+	response: TMDBPaginatedResponse<T>,
+	restrictions: ContentRestrictions | null,
+): Promise<TMDBPaginatedResponse<T>> => {
+	if (!restrictions) return response;
+
+	return {
+		...response,
+		results: await filterRestrictedResults(
+			mediaType,
+			response.results,
+			restrictions,
+		),
+	};
+};
+
+/**
+ * Check whether a single title may be shown.
+ * Returns the reason it's blocked, or null if it's allowed.
+ */
+export const getTitleRestriction = async (
+	mediaType: TMDBContentType,
+	id: number,
+	restrictions: ContentRestrictions,
+): Promise<string | null> => {
+	const { allowedGenreIds, hideAdult, maturity } = restrictions;
+
+	if (hideAdult || allowedGenreIds) {
+		const details =
+			mediaType === "movie"
+				? await tmdbService.getMovieDetails(id)
+				: await tmdbService.getTVShowDetails(id);
+
+		if (hideAdult && "adult" in details && details.adult) {
+			return "Adult titles are not available on kids profiles";
+		}
+
+		if (
+			allowedGenreIds &&
+			!details.genres.some((genre) => allowedGenreIds.includes(genre.id))
+		) {
+			return "This title is not in a genre available on kids profiles";
+		}
+	}
+
+	if (maturity) {
+		const certification = await getCertification(
+			mediaType,
+			id,
+			maturity.region,
+		);
+
+		if (!isWithinMaturity(certification.maturity, maturity)) {
+			return certification.certification
+				? `Rated ${certification.certification} (${certification.maturity}) in ${certification.region}, above this profile's ${maturity.maxMaturity} limit`
+				: "This title has no age rating, so it is not available on this profile";
+		}
+	}
+
+	return null;
+};
+
+/**
+ * Drop the titles a profile may not see from a set of saved titles, such
+ * as someone else's shared list. Saved titles don't carry genres or
+ * ratings, so each one is checked as if it had been opened directly.
+ * A title that can't be checked is dropped.
+ */
+export const filterRestrictedTitles = async <
+	T extends { tmdbId: number; contentType: string },
+>(
+	items: T[],
+	restrictions: MixedContentRestrictions,
+): Promise<T[]> => {
+	if (!restrictions.movie && !restrictions.tv) return items;
+
+	const allowed: T[] = [];
+
+	for (let start = 0; start < items.length; start += TITLE_CHECK_CONCURRENCY) {
+		const batch = items.slice(start, start + TITLE_CHECK_CONCURRENCY);
+		const results = await Promise.allSettled(
+			batch.map((item) => {
+				const mediaType = item.contentType as TMDBContentType;
+				const forType = restrictions[mediaType];
+
+				return forType
+					? getTitleRestriction(mediaType, item.tmdbId, forType)
+					: Promise.resolve(null);
+			}),
+		);
+
+		batch.forEach((item, index) => {
+			const result = results[index];
+			if (result?.status === "fulfilled" && result.value === null) {
+				allowed.push(item);
+			}
+		});
+	}
+
+	return allowed;
+};
@@ -0,0 +1,262 @@
+import type { SearchResult, SearchSuggestion } from "../types/search.types.js";
+import type {
+	TMDBMultiSearchResult,
+	TMDBPaginatedResponse,
+	TMDBSearchResult,
+} from "../types/tmdb.types.js";
+import { DEFAULT_LANGUAGE } from "../utils/locale.js";
+import logger from "../utils/logger.js";
+import {
+	filterRestrictedResults,
+	type MixedContentRestrictions,
+} from "./restriction.service.js";
+import { tmdbService } from "./tmdb.service.js";
+
+/**
+ * Search Service
+ *
+ * Wraps TMDB's multi-search and turns its mixed results into our
+ * normalized SearchResult shape (see search.types.ts).
+ */
+
+/**
+ * Pull the year out of a TMDB date string like "1999-10-15"
+ */
+const yearOf = (date: string | undefined): number | null => {
+	const year = parseInt(date?.slice(0, 4) ?? "", 10);
+	return Number.isNaN(year) ? null : year;
+};
+
+/**
+ * Movies have a title, TV shows have a name
+ */
+const titleOf = (item: TMDBSearchResult): string =>
+	"title" in item ? item.title : item.name;
+
+/**
+ * Convert one raw multi-search result into a normalized SearchResult
+ */
+export const normalizeSearchResult = (
+	item: TMDBMultiSearchResult,
+): SearchResult => {
+	switch (item.media_type) {
+		case "movie":
+			return {
+				mediaType: "movie",
+				id: item.id,
+				title: item.title,
+				year: yearOf(item.release_date),
+				imageUrl: tmdbService.getImageURL(item.poster_path, "w342"),
+				popularity: item.popularity,
+				overview: item.overview,
+				releaseDate: item.release_date || null,
+				voteAverage: item.vote_average,
+				adult: item.adult,
+			};
+		case "tv":
+			return {
+				mediaType: "tv",
+				id: item.id,
+				title: item.name,
+				year: yearOf(item.first_air_date),
+				imageUrl: tmdbService.getImageURL(item.poster_path, "w342"),
+				popularity: item.popularity,
+				overview: item.overview,
+				firstAirDate: item.first_air_date || null,
+				voteAverage: item.vote_average,
+			};
+		case "person":
+			return {
+				mediaType: "person",
+				id: item.id,
+				title: item.name,
+				year: null,
+				imageUrl: tmdbService.getImageURL(item.profile_path, "w185"),
+				popularity: item.popularity,
+				knownForDepartment: item.known_for_department,
+				knownFor: (item.known_for ?? []).map(titleOf),
+				adult: item.adult,
+			};
+	}
+};
+
+type MultiSearchMovie = Extract<TMDBMultiSearchResult, { media_type: "movie" }>;
+type MultiSearchShow = Extract<TMDBMultiSearchResult, { media_type: "tv" }>;
+
+/**
+ * Drop the movies and shows the restrictions don't allow (see
+ * restriction.service.ts). People have no rating or genres, so they're
+ * only dropped when adult titles are hidden and TMDB flags them as adult.
+ */
+const filterRestrictedSearchResults = async (
+	results: TMDBMultiSearchResult[],
+	restrictions: MixedContentRestrictions,
+): Promise<TMDBMultiSearchResult[]> => {
+	const movies = results.filter(
+		(item): item is MultiSearchMovie => item.media_type === "movie",
+	);
+	const shows = results.filter(
+		(item): item is MultiSearchShow => item.media_type === "tv",
+	);
+
+	const [allowedMovies, allowedShows] = await Promise.all([
+		restrictions.movie
+			? filterRestrictedResults("movie", movies, restrictions.movie)
+			: movies,
+		restrictions.tv
+			? filterRestrictedResults("tv", shows, restrictions.tv)
+			: shows,
+	]);
+
+	const hideAdult =
+		(restrictions.movie?.hideAdult ?? false) ||
+		(restrictions.tv?.hideAdult ?? false);
+	const allowed = new Set<TMDBMultiSearchResult>([
+		...allowedMovies,
+		...allowedShows,
+	]);
+
+	return results.filter((item) =>
+		item.media_type === "person"
+			? !(hideAdult && item.adult)
+			: allowed.has(item),
+	);
+};
+
+/**
+ * Search movies, TV shows and people in one request
+ */
+export const searchAll = async (
+	query: string,
+	options: {
+		page: number;
+		includeAdult: boolean;
+		language?: string;
+		restrictions?: MixedContentRestrictions;
+	},
+): Promise<TMDBPaginatedResponse<SearchResult>> => {
+	const response = await tmdbService.multiSearch(
+		query,
+		options.page,
+		options.includeAdult,
+		options.language,
+	);
+
+	const results = options.restrictions
+		? await filterRestrictedSearchResults(
+				response.results,
+				options.restrictions,
+			)
+		: response.results;
+
+	return {
+		page: response.page,
+		total_pages: response.total_pages,
+		total_results: response.total_results,
+		results: results.map(normalizeSearchResult),
+	};
+};
+
+// ==================== SUGGESTIONS ====================
+
+// Type-ahead fires a request on (almost) every keystroke, so suggestions are
+// kept in memory for a few minutes instead of going through the database cache.
+const SUGGESTION_CACHE_TTL = 5 * 60 * 1000; // 5 minutes
+const SUGGESTION_CACHE_MAX_ENTRIES = 1_000;
+const MAX_SUGGESTIONS = 20;
+
+// The raw TMDB results are kept, since profiles with restrictions need
+// their genres and adult flags to filter them
+const suggestionCache = new Map<
+	string,
+	{ results: TMDBMultiSearchResult[]; expiresAt: number }
+>();
+
+// Lookups that are currently waiting on TMDB, keyed like the cache.
+// Identical requests arriving at the same time share one TMDB call.
+const inFlightSuggestions = new Map<string, Promise<TMDBMultiSearchResult[]>>();
+
+/**
+ * Normalize a search prefix so "  The  Matrix" and "the matrix" share a cache entry
+ */
+export const normalizePrefix = (query: string): string =>
+	query.trim().toLowerCase().replace(/\s+/g, " ");
+
+const fetchSuggestions = async (
+	prefix: string,
+	language: string,
+	cacheKey: string,
+): Promise<TMDBMultiSearchResult[]> => {
+	const response = await tmdbService.multiSearch(prefix, 1, false, language);
+
+	const results = response.results
+		.sort((a, b) => b.popularity - a.popularity)
+		.slice(0, MAX_SUGGESTIONS);
+
+	// Evict the oldest entry once the cache is full (Maps keep insertion order)
+	if (suggestionCache.size >= SUGGESTION_CACHE_MAX_ENTRIES) {
+		const oldestKey = suggestionCache.keys().next().value;
+		if (oldestKey !== undefined) suggestionCache.delete(oldestKey);
+	}
+
+	suggestionCache.set(cacheKey, {
+		results,
+		expiresAt: Date.now() + SUGGESTION_CACHE_TTL,
+	});
+
+	return results;
+};
+
+/**
+ * Trim cached results down to what a search box shows
+ */
+const toSuggestion = (item: TMDBMultiSearchResult): SearchSuggestion => {
+	const { mediaType, id, title, year, imageUrl } = normalizeSearchResult(item);
+	return { mediaType, id, title, year, imageUrl };
+};
+
+/**
+ * Get the top title suggestions for a partial query
+ *
+ * 1. Serve from the in-memory cache if the prefix was looked up recently
+ * 2. Otherwise join an identical lookup that is already in flight
+ * 3. Otherwise ask TMDB and remember the answer
+ * 4. Leave out what the viewing profile isn't allowed to see
+ */
+export const getSuggestions = async (
+	query: string,
+	limit: number,
+	language: string = DEFAULT_LANGUAGE,
+	restrictions?: MixedContentRestrictions,
+): Promise<SearchSuggestion[]> => {
+	const prefix = normalizePrefix(query);
+	const count = Math.min(limit, MAX_SUGGESTIONS);
+	// Titles differ per language, so each language has its own entries
+	const cacheKey = `${language}:${prefix}`;
+
+	const cached = suggestionCache.get(cacheKey);
+	let results: TMDBMultiSearchResult[];
+
+	if (cached && cached.expiresAt > Date.now()) {
+		results = cached.results;
+	} else {
+		let pending = inFlightSuggestions.get(cacheKey);
+
+		if (!pending) {
+			logger.debug(`Fetching search suggestions for: ${cacheKey}`);
+			pending = fetchSuggestions(prefix, language, cacheKey).finally(() => {
+				inFlightSuggestions.delete(cacheKey);
+			});
+			inFlightSuggestions.set(cacheKey, pending);
+		}
+
+		results = await pending;
+	}
+
+	// The cache is shared by everyone, so restrictions are applied per request
+	const allowed = restrictions
+		? await filterRestrictedSearchResults(results, restrictions)
+		: results;
+
+	return allowed.slice(0, count).map(toSuggestion);
+};
@@ -0,0 +1,87 @@
+import prisma from "../config/prisma.js";
+import type { UserSettings } from "../generated/prisma/client.js";
+import type { UpdateSettingsInput } from "../schemas/settings.schema.js";
+
+/**
+ * Settings Service
+ *
+ * Account-wide preferences. Some only matter to clients (autoplay, image
+ * quality, notification opt-ins); others are used by the API as defaults:
+ * - language: what language TMDB titles and overviews are returned in
+ * - region: for watch providers and certifications when the request doesn't name one
+ * - hiddenGenreIds: left out of movie and TV browse lists
+ */
+
+export const CONTENT_TYPE_PREFERENCES = ["all", "movie", "tv"] as const;
+export const IMAGE_QUALITIES = [
+	"auto",
+	"low",
+	"medium",
+	"high",
+	"original",
+] as const;
+export const MAX_HIDDEN_GENRES = 50;
+
+export type Settings = Omit<
+	UserSettings,
+	"id" | "userId" | "createdAt" | "updatedAt"
+>;
+
+/**
+ * Settings for accounts that haven't changed anything yet.
+ * Must match the defaults in schema.prisma.
+ */
+export const DEFAULT_SETTINGS: Settings = {
+	language: null,
+	region: null,
+	autoplayNextEpisode: true,
+	autoplayPreviews: true,
+	defaultContentType: "all",
+	imageQuality: "auto",
+	hiddenGenreIds: [],
+	notifyNewEpisodes: false,
+	notifyRecommendations: false,
+	notifyProductUpdates: false,
+};
+
+const settingsSelect = {
+	language: true,
+	region: true,
+	autoplayNextEpisode: true,
+	autoplayPreviews: true,
+	defaultContentType: true,
+	imageQuality: true,
+	hiddenGenreIds: true,
+	notifyNewEpisodes: true,
+	notifyRecommendations: true,
+	notifyProductUpdates: true,
+} as const;
+
+/**
+ * Get a user's settings, falling back to the defaults
+ */
+export const getUserSettings = async (userId: string): Promise<Settings> =>
+	(await prisma.userSettings.findUnique({
+		where: { userId },
+		select: settingsSelect,
+	})) ?? DEFAULT_SETTINGS;
+
+/**
+ * Change some of a user's settings, creating their row on first use
+ */
+export const updateUserSettings = async (
+	userId: string,
+	changes: UpdateSettingsInput,
+): Promise<Settings> => {
+	// Drop fields that weren't sent, so they keep their current value
+	const data = Object.fromEntries(
+		Object.entries(changes).filter(([, value]) => value !== undefined),
+	) as Partial<Settings>;
+
+	return prisma.userSettings.upsert({
+		where: { userId },
+		create: { userId, ...data },
+		update: data,
+		select: settingsSelect,
+	});
+};
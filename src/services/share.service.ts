@@ -0,0 +1,415 @@
+import { randomBytes } from "node:crypto";
+import prisma from "../config/prisma.js";
+import type { List, Profile } from "../generated/prisma/client.js";
+import {
+	filterRestrictedTitles,
+	type MixedContentRestrictions,
+} from "./restriction.service.js";
+import { appendToWatchlist } from "./watchlist.service.js";
+
+/**
+ * Sharing Service
+ *
+ * A profile's watchlist and each of its custom lists can be shared by link.
+ * Every shared collection has a visibility:
+ * - "private": only the owner can see it (the default)
+ * - "unlisted": anyone with the link can see it
+ * - "public": anyone with the link can see it, and it's listed in
+ *   GET /api/shared for people to discover
+ *
+ * Links use a random slug rather than the row's ID, so they can't be
+ * guessed and can be swapped for a new one to revoke the old link.
+ *
+ * Other people can copy a shared collection into their own watchlist.
+ * Each profile that does counts once towards the collection's saves.
+ */
+
+export const VISIBILITIES = ["private", "unlisted", "public"] as const;
+
+export type Visibility = (typeof VISIBILITIES)[number];
+
+export type SharedCollectionType = "list" | "watchlist";
+
+// Watchlists aren't capped like lists are, so shared pages stop here
+export const MAX_SHARED_ITEMS = 500;
+
+export interface SharingState {
+	visibility: Visibility;
+	shareSlug: string | null;
+	// Where the shared collection can be read, once it has a slug
+	sharePath: string | null;
+	saveCount: number;
+}
+
+/**
+ * A shared list or watchlist, found by its slug
+ */
+export type SharedSource =
+	| { type: "list"; list: List; owner: Profile }
+	| { type: "watchlist"; owner: Profile };
+
+export interface SharedItem {
+	tmdbId: number;
+	contentType: string;
+	title: string;
+	posterPath: string | null;
+	note: string | null;
+	addedAt: Date;
+}
+
+export interface SharedCollection {
+	type: SharedCollectionType;
+	slug: string;
+	name: string;
+	description: string | null;
+	coverImageUrl: string | null;
+	visibility: Visibility;
+	owner: { name: string; avatarUrl: string | null };
+	itemCount: number;
+	saveCount: number;
+	updatedAt: Date;
+}
+
+/**
+ * 128 random bits, URL-safe: e.g. "q3U0b1n4Zq9yS0bT4mE2fA"
+ */
+export const generateShareSlug = (): string =>
+	randomBytes(16).toString("base64url");
+
+const toVisibility = (value: string): Visibility =>
+	(VISIBILITIES as readonly string[]).includes(value)
+		? (value as Visibility)
+		: "private";
+
+const toSharingState = (
+	visibility: string,
+	shareSlug: string | null,
+	saveCount: number,
+): SharingState => ({
+	visibility: toVisibility(visibility),
+	shareSlug,
+	sharePath: shareSlug ? `/api/shared/${shareSlug}` : null,
+	saveCount,
+});
+
+/**
+ * Pick the slug to store after a sharing change.
+ * A slug is made the first time a collection stops being private.
+ */
+const nextShareSlug = (
+	current: string | null,
+	visibility: Visibility,
+	regenerateLink: boolean,
+): string | null =>
+	regenerateLink || (!current && visibility !== "private")
+		? generateShareSlug()
+		: current;
+
+export interface SharingChanges {
+	visibility?: Visibility | undefined;
+	regenerateLink?: boolean | undefined;
+}
+
+/**
+ * Get a list's sharing settings
+ */
+export const getListSharing = async (list: List): Promise<SharingState> =>
+	toSharingState(
+		list.visibility,
+		list.shareSlug,
+		await prisma.sharedSave.count({ where: { listId: list.id } }),
+	);
+
+/**
+ * Change who can see a list, or swap its link for a new one
+ */
+export const updateListSharing = async (
+	list: List,
+	{ visibility, regenerateLink = false }: SharingChanges,
+): Promise<SharingState> => {
+	const next = visibility ?? toVisibility(list.visibility);
+
+	const updated = await prisma.list.update({
+		where: { id: list.id },
+		data: {
+			visibility: next,
+			shareSlug: nextShareSlug(list.shareSlug, next, regenerateLink),
+		},
+	});
+
+	return getListSharing(updated);
+};
+
+/**
+ * Get a profile's watchlist sharing settings
+ */
+export const getWatchlistSharing = async (
+	profile: Profile,
+): Promise<SharingState> =>
+	toSharingState(
+		profile.watchlistVisibility,
+		profile.watchlistShareSlug,
+		await prisma.sharedSave.count({
+			where: { watchlistProfileId: profile.id },
+		}),
+	);
+
+/**
+ * Change who can see a profile's watchlist, or swap its link for a new one
+ */
+export const updateWatchlistSharing = async (
+	profile: Profile,
+	{ visibility, regenerateLink = false }: SharingChanges,
+): Promise<SharingState> => {
+	const next = visibility ?? toVisibility(profile.watchlistVisibility);
+
+	const updated = await prisma.profile.update({
+		where: { id: profile.id },
+		data: {
+			watchlistVisibility: next,
+			watchlistShareSlug: nextShareSlug(
+				profile.watchlistShareSlug,
+				next,
+				regenerateLink,
+			),
+		},
+	});
+
+	return getWatchlistSharing(updated);
+};
+
+// Shared collections of accounts waiting to be deleted disappear with them
+const visibleOwner = { user: { deletedAt: null } };
+
+/**
+ * Find the list or watchlist a share link points to.
+ * Returns null for unknown slugs and private collections.
+ */
+export const findSharedSource = async (
+	slug: string,
+): Promise<SharedSource | null> => {
+	const list = await prisma.list.findFirst({
+		where: {
+			shareSlug: slug,
+			visibility: { not: "private" },
+			profile: visibleOwner,
+		},
+		include: { profile: true },
+	});
+
+	if (list) {
+		const { profile, ...rest } = list;
+		return { type: "list", list: rest, owner: profile };
+	}
+
+	const owner = await prisma.profile.findFirst({
+		where: {
+			watchlistShareSlug: slug,
+			watchlistVisibility: { not: "private" },
+			...visibleOwner,
+		},
+	});
+
+	return owner ? { type: "watchlist", owner } : null;
+};
+
+/**
+ * Get the titles in a shared collection, in the owner's order.
+ * Watchlist notes are left out; they're written for the owner, while
+ * list notes are part of what's being shared.
+ */
+export const getSharedItems = async (
+	source: SharedSource,
+): Promise<SharedItem[]> => {
+	const select = {
+		tmdbId: true,
+		contentType: true,
+		title: true,
+		posterPath: true,
+		addedAt: true,
+	};
+
+	if (source.type === "list") {
+		return prisma.listItem.findMany({
+			where: { listId: source.list.id },
+			select: { ...select, note: true },
+			orderBy: { position: "asc" },
+			take: MAX_SHARED_ITEMS,
+		});
+	}
+
+	const items = await prisma.watchlist.findMany({
+		where: { profileId: source.owner.id },
+		select,
+		orderBy: { position: "asc" },
+		take: MAX_SHARED_ITEMS,
+	});
+
+	return items.map((item) => ({ ...item, note: null }));
+};
+
+/**
+ * Describe a shared collection for people other than its owner
+ */
+export const describeSharedSource = async (
+	source: SharedSource,
+): Promise<SharedCollection> => {
+	const owner = {
+		name: source.owner.name,
+		avatarUrl: source.owner.avatarUrl,
+	};
+
+	if (source.type === "list") {
+		const { list } = source;
+		const [itemCount, saveCount] = await Promise.all([
+			prisma.listItem.count({ where: { listId: list.id } }),
+			prisma.sharedSave.count({ where: { listId: list.id } }),
+		]);
+
+		return {
+			type: "list",
+			slug: list.shareSlug ?? "",
+			name: list.name,
+			description: list.description,
+			coverImageUrl: list.coverImageUrl,
+			visibility: toVisibility(list.visibility),
+			owner,
+			itemCount,
+			saveCount,
+			updatedAt: list.updatedAt,
+		};
+	}
+
+	const [itemCount, saveCount] = await Promise.all([
+		prisma.watchlist.count({ where: { profileId: source.owner.id } }),
+		prisma.sharedSave.count({ where: { watchlistProfileId: source.owner.id } }),
+	]);
+
+	return {
+		type: "watchlist",
+		slug: source.owner.watchlistShareSlug ?? "",
+		name: `${source.owner.name}'s watchlist`,
+		description: null,
+		coverImageUrl: null,
+		visibility: toVisibility(source.owner.watchlistVisibility),
+		owner,
+		itemCount,
+		saveCount,
+		updatedAt: source.owner.updatedAt,
+	};
+};
+
+/**
+ * Check whether a profile has already saved a shared collection
+ */
+export const hasSavedSharedSource = async (
+	source: SharedSource,
+	profileId: string,
+): Promise<boolean> => {
+	const save = await prisma.sharedSave.findFirst({
+		where: {
+			profileId,
+			...(source.type === "list"
+				? { listId: source.list.id }
+				: { watchlistProfileId: source.owner.id }),
+		},
+		select: { id: true },
+	});
+
+	return save !== null;
+};
+
+/**
+ * Browse public collections, most saved first
+ */
+export const browsePublicCollections = async (
+	type: SharedCollectionType,
+	limit: number,
+	cursor: string | undefined,
+): Promise<{ data: SharedCollection[]; nextCursor: string | null }> => {
+	// Fetch one extra row so we know whether another page exists
+	const page = {
+		take: limit + 1,
+		...(cursor && { cursor: { id: cursor }, skip: 1 }),
+	};
+
+	const sources: (SharedSource & { id: string })[] =
+		type === "list"
+			? (
+					await prisma.list.findMany({
+						where: { visibility: "public", profile: visibleOwner },
+						include: { profile: true },
+						orderBy: [{ saves: { _count: "desc" } }, { id: "desc" }],
+						...page,
+					})
+				).map(({ profile, ...list }) => ({
+					id: list.id,
+					type: "list",
+					list,
+					owner: profile,
+				}))
+			: (
+					await prisma.profile.findMany({
+						where: { watchlistVisibility: "public", ...visibleOwner },
+						orderBy: [{ watchlistSaves: { _count: "desc" } }, { id: "desc" }],
+						...page,
+					})
+				).map((owner) => ({ id: owner.id, type: "watchlist", owner }));
+
+	const hasMore = sources.length > limit;
+	const pageSources = hasMore ? sources.slice(0, limit) : sources;
+
+	return {
+		data: await Promise.all(pageSources.map(describeSharedSource)),
+		nextCursor: hasMore
+			? (pageSources[pageSources.length - 1]?.id ?? null)
+			: null,
+	};
+};
+
+/**
+ * Copy a shared collection's titles into a profile's watchlist.
+ *
+ * Titles already on the watchlist are skipped, and so are titles the
+ * profile isn't allowed to see. Copying someone else's collection counts
+ * as saving it; copying your own doesn't.
+ */
+export const copySharedToWatchlist = async (
+	source: SharedSource,
+	profile: Profile,
+	restrictions: MixedContentRestrictions,
+): Promise<{ added: number; skipped: number; restricted: number }> => {
+	const shared = await getSharedItems(source);
+	const items = await filterRestrictedTitles(shared, restrictions);
+
+	return prisma.$transaction(async (tx) => {
+		const added = await appendToWatchlist(
+			tx,
+			profile,
+			items.map(({ tmdbId, contentType, title, posterPath }) => ({
+				tmdbId,
+				contentType,
+				title,
+				posterPath,
+			})),
+		);
+
+		if (source.owner.id !== profile.id) {
+			const target =
+				source.type === "list"
+					? { listId: source.list.id }
+					: { watchlistProfileId: source.owner.id };
+
+			await tx.sharedSave.createMany({
+				data: [{ userId: profile.userId, profileId: profile.id, ...target }],
+				skipDuplicates: true,
+			});
+		}
+
+		return {
+			added,
+			skipped: items.length - added,
+			restricted: shared.length - items.length,
+		};
+	});
+};
@@ -0,0 +1,154 @@
+import prisma from "../config/prisma.js";
+import { Prisma } from "../generated/prisma/client.js";
+import type { TMDBContentType } from "../types/tmdb.types.js";
+
+/**
+ * Library Status Service
+ *
+ * Answers "what has this profile done with these titles?" for a whole grid
+ * of posters at once: watchlist, favorites, watched and progress, all from
+ * a single database query.
+ */
+
+export const MAX_STATUS_ITEMS = 100;
+
+export interface TitleRef {
+	tmdbId: number;
+	contentType: TMDBContentType;
+}
+
+/**
+ * Where the profile got to with a title.
+ * Movies come from their latest watch history entry; shows from their
+ * latest episode progress, plus how many episodes are finished.
+ */
+export interface TitleProgress {
+	duration: number | null;
+	completed: boolean;
+	watchedAt: Date;
+	seasonNumber: number | null;
+	episodeNumber: number | null;
+	episodesWatched: number | null;
+}
+
+export interface TitleStatus extends TitleRef {
+	inWatchlist: boolean;
+	watchlistId: string | null;
+	isFavorite: boolean;
+	favoriteId: string | null;
+	// Has a completed watch history entry, as in the watchlist's `watched` filter
+	watched: boolean;
+	progress: TitleProgress | null;
+}
+
+interface StatusRow {
+	index: number;
+	watchlistId: string | null;
+	favoriteId: string | null;
+	watched: boolean;
+	duration: number | null;
+	completed: boolean | null;
+	watchedAt: Date | null;
+	seasonNumber: number | null;
+	episodeNumber: number | null;
+	episodesWatched: bigint | null;
+}
+
+/**
+ * Get a profile's status for many titles, in the order they were asked for
+ */
+export const getTitleStatuses = async (
+	profileId: string,
+	titles: TitleRef[],
+): Promise<TitleStatus[]> => {
+	if (titles.length === 0) return [];
+
+	const requested = Prisma.join(
+		titles.map(
+			(title, index) =>
+				Prisma.sql`(${index}::int, ${title.tmdbId}::int, ${title.contentType}::text)`,
+		),
+	);
+
+	const rows = await prisma.$queryRaw<StatusRow[]>`
+		WITH requested ("index", "tmdbId", "contentType") AS (VALUES ${requested})
+		SELECT
+			r."index",
+			w."id" AS "watchlistId",
+			f."id" AS "favoriteId",
+			EXISTS (
+				SELECT 1 FROM "WatchHistory" h
+				WHERE h."profileId" = ${profileId}
+					AND h."tmdbId" = r."tmdbId"
+					AND h."contentType" = r."contentType"
+					AND h."completed"
+			) AS "watched",
+			COALESCE(sp."duration", mh."duration") AS "duration",
+			COALESCE(sp."completed", mh."completed") AS "completed",
+			COALESCE(sp."watchedAt", mh."watchedAt") AS "watchedAt",
+			sp."seasonNumber",
+			sp."episodeNumber",
+			sp."episodesWatched"
+		FROM requested r
+		LEFT JOIN "Watchlist" w
+			ON w."profileId" = ${profileId}
+			AND w."tmdbId" = r."tmdbId"
+			AND w."contentType" = r."contentType"
+		LEFT JOIN "Favorite" f
+			ON f."profileId" = ${profileId}
+			AND f."tmdbId" = r."tmdbId"
+			AND f."contentType" = r."contentType"
+		LEFT JOIN LATERAL (
+			SELECT h."duration", h."completed", h."watchedAt"
+			FROM "WatchHistory" h
+			WHERE r."contentType" = 'movie'
+				AND h."profileId" = ${profileId}
+				AND h."tmdbId" = r."tmdbId"
+				AND h."contentType" = 'movie'
+			ORDER BY h."watchedAt" DESC
+			LIMIT 1
+		) mh ON true
+		LEFT JOIN LATERAL (
+			SELECT
+				s."duration",
+				s."completed",
+				s."watchedAt",
+				s."seasonNumber",
+				s."episodeNumber",
+				COUNT(*) FILTER (WHERE s."completed") OVER () AS "episodesWatched"
+			FROM "ShowProgress" s
+			WHERE r."contentType" = 'tv'
+				AND s."profileId" = ${profileId}
+				AND s."tmdbShowId" = r."tmdbId"
+			ORDER BY s."watchedAt" DESC
+			LIMIT 1
+		) sp ON true
+		ORDER BY r."index"
+	`;
+
+	return rows.map((row) => {
+		// biome-ignore lint/style/noNonNullAssertion: Every row comes from one of the titles
+		const title = titles[row.index]!;
+
+		return {
+			tmdbId: title.tmdbId,
+			contentType: title.contentType,
+			inWatchlist: row.watchlistId !== null,
+			watchlistId: row.watchlistId,
+			isFavorite: row.favoriteId !== null,
+			favoriteId: row.favoriteId,
+			watched: row.watched,
+			progress: row.watchedAt
+				? {
+						duration: row.duration,
+						completed: row.completed ?? false,
+						watchedAt: row.watchedAt,
+						seasonNumber: row.seasonNumber,
+						episodeNumber: row.episodeNumber,
+						episodesWatched:
+							row.episodesWatched === null ? null : Number(row.episodesWatched),
+					}
+				: null,
+		};
+	});
+};
@@ -1,19 +1,41 @@
 import axios, { type AxiosInstance } from "axios";
 import { env } from "../config/env.js";
 import prisma from "../config/prisma.js";
+import type { DiscoverFilters } from "../schemas/discover.schema.js";
 import type {
 	TMDBContentType,
 	TMDBCredits,
+	TMDBEpisodeDetails,
+	TMDBFindResponse,
 	TMDBGenre,
 	TMDBMovie,
 	TMDBMovieDetails,
+	TMDBMovieReleaseDates,
+	TMDBMultiSearchResult,
 	TMDBPaginatedResponse,
+	TMDBPerson,
+	TMDBPersonCombinedCredits,
+	TMDBPersonDetails,
+	TMDBPersonImages,
+	TMDBSeasonDetails,
 	TMDBTimeWindow,
+	TMDBTVContentRatings,
 	TMDBTVShow,
 	TMDBTVShowDetails,
 	TMDBVideo,
+	TMDBWatchProviderCatalogEntry,
+	TMDBWatchProviders,
 } from "../types/tmdb.types.js";
+import {
+	DEFAULT_LANGUAGE,
+	DEFAULT_REGION,
+	isEnglish,
+} from "../utils/locale.js";
 import logger from "../utils/logger.js";
+import {
+	fillMissingTranslations,
+	hasMissingTranslations,
+} from "../utils/translations.js";
 
 /**
  * TMDB Service
@@ -24,6 +46,11 @@ import logger from "../utils/logger.js";
  *
  * Think of this as hiring a specialized librarian who knows exactly where
  * to find every movie in the world and remembers what you've already looked up.
+ *
+ * Methods that return text (titles, overviews, genre names...) take a
+ * `language` like "fr" or "pt-BR" (see resolveLanguage in utils/locale.ts).
+ * Text TMDB hasn't translated is filled in from English. Release dates,
+ * ratings, watch providers and images are the same in every language.
  */
 
 class TMDBService {
@@ -65,11 +92,14 @@ class TMDBService {
 	 * 3. If no, fetch from TMDB
 	 * 4. Cache the new data for next time
 	 * 5. Return the data
+	 *
+	 * Any query params that change the response must also be part of the cacheKey.
 	 */
 	private async fetchWithCache<T>(
 		endpoint: string,
 		cacheKey: string,
 		cacheDuration: number = 24 * 60 * 60 * 1000, // Default: 24 hours in milliseconds
+		params: Record<string, string | number | boolean> = {},
 	): Promise<T> {
 		try {
 			// Step 1: Check cache
@@ -90,7 +120,7 @@ class TMDBService {
 
 			// Step 3: Cache miss - fetch from TMDB
 			logger.info(`🌐 Fetching from TMDB: ${endpoint}`);
-			const response = await this.client.get<T>(endpoint);
+			const response = await this.client.get<T>(endpoint, { params });
 
 			// Step 4: Save to cache for next time
 			await prisma.contentCache.create({
@@ -112,6 +142,50 @@ class TMDBService {
 		}
 	}
 
+	/**
+	 * Run a TMDB request in a language, filling gaps in the translation
+	 * from English.
+	 *
+	 * The English version is only requested when something is missing.
+	 * If that request fails, the incomplete translation is returned as is.
+	 */
+	private async withEnglishFallback<T>(
+		language: string,
+		fetch: (language: string) => Promise<T>,
+	): Promise<T> {
+		const localized = await fetch(language);
+
+		if (isEnglish(language) || !hasMissingTranslations(localized)) {
+			return localized;
+		}
+
+		try {
+			return fillMissingTranslations(localized, await fetch(DEFAULT_LANGUAGE));
+		} catch (error) {
+			logger.warn(error, `Could not fetch English fallback for ${language}`);
+			return localized;
+		}
+	}
+
+	/**
+	 * fetchWithCache for responses that come in different languages.
+	 * Each language gets its own cache entry.
+	 */
+	private async fetchLocalized<T>(
+		endpoint: string,
+		cacheKey: string,
+		cacheDuration: number,
+		language: string,
+		params: Record<string, string | number | boolean> = {},
+	): Promise<T> {
+		return this.withEnglishFallback(language, (lang) =>
+			this.fetchWithCache<T>(endpoint, `${cacheKey}_${lang}`, cacheDuration, {
+				...params,
+				language: lang,
+			}),
+		);
+	}
+
 	/**
 	 * Get Trending Movies or TV Shows
 	 *
@@ -121,12 +195,20 @@ class TMDBService {
 	async getTrending(
 		mediaType: TMDBContentType,
 		timeWindow: TMDBTimeWindow = "week",
+		language: string = DEFAULT_LANGUAGE,
+		region: string = DEFAULT_REGION,
 	): Promise<TMDBPaginatedResponse<TMDBMovie | TMDBTVShow>> {
 		const endpoint = `/trending/${mediaType}/${timeWindow}`;
-		const cacheKey = `trending_${mediaType}_${timeWindow}`;
+		const cacheKey = `trending_${mediaType}_${timeWindow}_${region}`;
 
 		// Cache trending content for 6 hours (it doesn't change that often)
-		return this.fetchWithCache(endpoint, cacheKey, 6 * 60 * 60 * 1000);
+		return this.fetchLocalized(
+			endpoint,
+			cacheKey,
+			6 * 60 * 60 * 1000,
+			language,
+			{ region },
+		);
 	}
 
 	/**
@@ -138,11 +220,19 @@ class TMDBService {
 	async getPopular(
 		mediaType: TMDBContentType,
 		page: number = 1,
+		language: string = DEFAULT_LANGUAGE,
+		region: string = DEFAULT_REGION,
 	): Promise<TMDBPaginatedResponse<TMDBMovie | TMDBTVShow>> {
 		const endpoint = `/${mediaType}/popular`;
-		const cacheKey = `popular_${mediaType}_page${page}`;
+		const cacheKey = `popular_${mediaType}_page${page}_${region}`;
 
-		return this.fetchWithCache(endpoint, cacheKey, 12 * 60 * 60 * 1000);
+		return this.fetchLocalized(
+			endpoint,
+			cacheKey,
+			12 * 60 * 60 * 1000,
+			language,
+			{ page, region },
+		);
 	}
 
 	/**
@@ -154,11 +244,19 @@ class TMDBService {
 	async getTopRated(
 		mediaType: TMDBContentType,
 		page: number = 1,
+		language: string = DEFAULT_LANGUAGE,
+		region: string = DEFAULT_REGION,
 	): Promise<TMDBPaginatedResponse<TMDBMovie | TMDBTVShow>> {
 		const endpoint = `/${mediaType}/top_rated`;
-		const cacheKey = `top_rated_${mediaType}_page${page}`;
+		const cacheKey = `top_rated_${mediaType}_page${page}_${region}`;
 
-		return this.fetchWithCache(endpoint, cacheKey, 12 * 60 * 60 * 1000);
+		return this.fetchLocalized(
+			endpoint,
+			cacheKey,
+			12 * 60 * 60 * 1000,
+			language,
+			{ page, region },
+		);
 	}
 
 	/**
@@ -168,12 +266,23 @@ class TMDBService {
 	 */
 	async getNowPlaying(
 		page: number = 1,
+		language: string = DEFAULT_LANGUAGE,
+		region: string = DEFAULT_REGION,
 	): Promise<TMDBPaginatedResponse<TMDBMovie>> {
 		const endpoint = "/movie/now_playing";
-		const cacheKey = `now_playing_page${page}`;
+		const cacheKey = `now_playing_page${page}_${region}`;
 
 		// These change frequently so cache for only 3 hours
-		return this.fetchWithCache(endpoint, cacheKey, 3 * 60 * 60 * 1000);
+		return this.fetchLocalized(
+			endpoint,
+			cacheKey,
+			3 * 60 * 60 * 1000,
+			language,
+			{
+				page,
+				region,
+			},
+		);
 	}
 
 	/**
@@ -183,11 +292,22 @@ class TMDBService {
 	 */
 	async getUpcoming(
 		page: number = 1,
+		language: string = DEFAULT_LANGUAGE,
+		region: string = DEFAULT_REGION,
 	): Promise<TMDBPaginatedResponse<TMDBMovie>> {
 		const endpoint = "/movie/upcoming";
-		const cacheKey = `upcoming_page${page}`;
+		const cacheKey = `upcoming_page${page}_${region}`;
 
-		return this.fetchWithCache(endpoint, cacheKey, 12 * 60 * 60 * 1000);
+		return this.fetchLocalized(
+			endpoint,
+			cacheKey,
+			12 * 60 * 60 * 1000,
+			language,
+			{
+				page,
+				region,
+			},
+		);
 	}
 
 	/**
@@ -196,12 +316,20 @@ class TMDBService {
 	 * Fetches complete information about a specific movie including
 	 * runtime, budget, genres, production companies, and more.
 	 */
-	async getMovieDetails(movieId: number): Promise<TMDBMovieDetails> {
+	async getMovieDetails(
+		movieId: number,
+		language: string = DEFAULT_LANGUAGE,
+	): Promise<TMDBMovieDetails> {
 		const endpoint = `/movie/${movieId}`;
 		const cacheKey = `movie_details_${movieId}`;
 
 		// Movie details rarely change, cache for 7 days
-		return this.fetchWithCache(endpoint, cacheKey, 7 * 24 * 60 * 60 * 1000);
+		return this.fetchLocalized(
+			endpoint,
+			cacheKey,
+			7 * 24 * 60 * 60 * 1000,
+			language,
+		);
 	}
 
 	/**
@@ -210,11 +338,71 @@ class TMDBService {
 	 * Complete information about a TV show including seasons, episodes,
 	 * networks, creators, and more.
 	 */
-	async getTVShowDetails(showId: number): Promise<TMDBTVShowDetails> {
+	async getTVShowDetails(
+		showId: number,
+		language: string = DEFAULT_LANGUAGE,
+	): Promise<TMDBTVShowDetails> {
 		const endpoint = `/tv/${showId}`;
 		const cacheKey = `tv_details_${showId}`;
 
-		return this.fetchWithCache(endpoint, cacheKey, 7 * 24 * 60 * 60 * 1000);
+		return this.fetchLocalized(
+			endpoint,
+			cacheKey,
+			7 * 24 * 60 * 60 * 1000,
+			language,
+		);
+	}
+
+	/**
+	 * Get TV Season Details
+	 *
+	 * Returns a season with its full episode list, including each episode's
+	 * still image, air date and runtime. Perfect for an episode picker.
+	 */
+	async getSeasonDetails(
+		showId: number,
+		seasonNumber: number,
+		language: string = DEFAULT_LANGUAGE,
+	): Promise<TMDBSeasonDetails> {
+		const endpoint = `/tv/${showId}/season/${seasonNumber}`;
+		const cacheKey = `tv_season_${showId}_${seasonNumber}`;
+
+		// Airing seasons gain new episodes, so only cache for 1 day
+		return this.fetchLocalized(
+			endpoint,
+			cacheKey,
+			24 * 60 * 60 * 1000,
+			language,
+		);
+	}
+
+	/**
+	 * Get TV Episode Details
+	 *
+	 * Complete information about a single episode, including guest stars,
+	 * crew and all available stills.
+	 */
+	async getEpisodeDetails(
+		showId: number,
+		seasonNumber: number,
+		episodeNumber: number,
+		language: string = DEFAULT_LANGUAGE,
+	): Promise<TMDBEpisodeDetails> {
+		const endpoint = `/tv/${showId}/season/${seasonNumber}/episode/${episodeNumber}`;
+		const cacheKey = `tv_episode_${showId}_${seasonNumber}_${episodeNumber}`;
+
+		return this.fetchLocalized(
+			endpoint,
+			cacheKey,
+			24 * 60 * 60 * 1000,
+			language,
+			{
+				append_to_response: "images", // Includes the episode stills in one call
+				// Otherwise only stills tagged with the language are returned,
+				// and most stills have no language at all
+				include_image_language: `${language.slice(0, 2)},en,null`,
+			},
+		);
 	}
 
 	/**
@@ -226,29 +414,124 @@ class TMDBService {
 	async getCredits(
 		mediaType: TMDBContentType,
 		id: number,
+		language: string = DEFAULT_LANGUAGE,
 	): Promise<TMDBCredits> {
 		const endpoint = `/${mediaType}/${id}/credits`;
 		const cacheKey = `${mediaType}_credits_${id}`;
 
-		return this.fetchWithCache(endpoint, cacheKey, 7 * 24 * 60 * 60 * 1000);
+		return this.fetchLocalized(
+			endpoint,
+			cacheKey,
+			7 * 24 * 60 * 60 * 1000,
+			language,
+		);
 	}
 
 	/**
 	 * Get Videos (Trailers, Teasers, Clips)
 	 *
 	 * Returns available videos for a movie or show, usually trailers and clips.
-	 * Most videos are YouTube links.
+	 * Most videos are YouTube links. Videos in the requested language come
+	 * with English and language-less ones, since many titles only have those.
 	 */
 	async getVideos(
 		mediaType: TMDBContentType,
 		id: number,
+		language: string = DEFAULT_LANGUAGE,
 	): Promise<{ results: TMDBVideo[] }> {
 		const endpoint = `/${mediaType}/${id}/videos`;
 		const cacheKey = `${mediaType}_videos_${id}`;
 
+		return this.fetchLocalized(
+			endpoint,
+			cacheKey,
+			7 * 24 * 60 * 60 * 1000,
+			language,
+			{ include_video_language: `${language.slice(0, 2)},en,null` },
+		);
+	}
+
+	/**
+	 * Get Movie Release Dates
+	 *
+	 * Release dates and age certifications (G, PG-13, 15, FSK 12...)
+	 * for every country a movie was released in.
+	 */
+	async getMovieReleaseDates(movieId: number): Promise<TMDBMovieReleaseDates> {
+		const endpoint = `/movie/${movieId}/release_dates`;
+		const cacheKey = `movie_release_dates_${movieId}`;
+
+		return this.fetchWithCache(endpoint, cacheKey, 7 * 24 * 60 * 60 * 1000);
+	}
+
+	/**
+	 * Get TV Content Ratings
+	 *
+	 * Age ratings (TV-14, TV-MA, 15...) for every country a show aired in.
+	 */
+	async getTVContentRatings(showId: number): Promise<TMDBTVContentRatings> {
+		const endpoint = `/tv/${showId}/content_ratings`;
+		const cacheKey = `tv_content_ratings_${showId}`;
+
 		return this.fetchWithCache(endpoint, cacheKey, 7 * 24 * 60 * 60 * 1000);
 	}
 
+	/**
+	 * Get Watch Providers
+	 *
+	 * Where a movie or show can be streamed, rented or bought, for every
+	 * region TMDB knows about. Data is provided to TMDB by JustWatch.
+	 */
+	async getWatchProviders(
+		mediaType: TMDBContentType,
+		id: number,
+	): Promise<TMDBWatchProviders> {
+		const endpoint = `/${mediaType}/${id}/watch/providers`;
+		const cacheKey = `${mediaType}_watch_providers_${id}`;
+
+		// Catalogs change as licensing deals come and go, so refresh daily
+		return this.fetchWithCache(endpoint, cacheKey, 24 * 60 * 60 * 1000);
+	}
+
+	/**
+	 * Get Watch Provider Catalog
+	 *
+	 * Every provider available for movies or TV in a region. Use this to
+	 * build a "Filter by streaming service" UI for discover.
+	 */
+	async getWatchProviderCatalog(
+		mediaType: TMDBContentType,
+		region: string,
+	): Promise<TMDBWatchProviderCatalogEntry[]> {
+		const endpoint = `/watch/providers/${mediaType}`;
+		const cacheKey = `watch_provider_catalog_${mediaType}_${region}`;
+
+		const response = await this.fetchWithCache<{
+			results: TMDBWatchProviderCatalogEntry[];
+		}>(endpoint, cacheKey, 7 * 24 * 60 * 60 * 1000, { watch_region: region });
+
+		return response.results;
+	}
+
+	/**
+	 * Find by External ID
+	 *
+	 * Looks up titles by an ID from another site, such as an IMDb ID
+	 * ("tt0137523"). Used to match titles imported from other services.
+	 */
+	async findByExternalId(
+		externalId: string,
+		source: "imdb_id" | "tvdb_id",
+	): Promise<TMDBFindResponse> {
+		const endpoint = `/find/${encodeURIComponent(externalId)}`;
+		const cacheKey = `find_${source}_${externalId}`;
+
+		// External IDs don't move to other titles, so keep these for a month
+		return this.fetchWithCache(endpoint, cacheKey, 30 * 24 * 60 * 60 * 1000, {
+			external_source: source,
+		});
+	}
+
 	/**
 	 * Get Similar Movies or TV Shows
 	 *
@@ -259,11 +542,20 @@ class TMDBService {
 		mediaType: TMDBContentType,
 		id: number,
 		page: number = 1,
+		language: string = DEFAULT_LANGUAGE,
 	): Promise<TMDBPaginatedResponse<TMDBMovie | TMDBTVShow>> {
 		const endpoint = `/${mediaType}/${id}/similar`;
 		const cacheKey = `${mediaType}_similar_${id}_page${page}`;
 
-		return this.fetchWithCache(endpoint, cacheKey, 24 * 60 * 60 * 1000);
+		return this.fetchLocalized(
+			endpoint,
+			cacheKey,
+			24 * 60 * 60 * 1000,
+			language,
+			{
+				page,
+			},
+		);
 	}
 
 	/**
@@ -276,11 +568,20 @@ class TMDBService {
 		mediaType: TMDBContentType,
 		id: number,
 		page: number = 1,
+		language: string = DEFAULT_LANGUAGE,
 	): Promise<TMDBPaginatedResponse<TMDBMovie | TMDBTVShow>> {
 		const endpoint = `/${mediaType}/${id}/recommendations`;
 		const cacheKey = `${mediaType}_recommendations_${id}_page${page}`;
 
-		return this.fetchWithCache(endpoint, cacheKey, 24 * 60 * 60 * 1000);
+		return this.fetchLocalized(
+			endpoint,
+			cacheKey,
+			24 * 60 * 60 * 1000,
+			language,
+			{
+				page,
+			},
+		);
 	}
 
 	/**
@@ -293,40 +594,111 @@ class TMDBService {
 		query: string,
 		mediaType: TMDBContentType,
 		page: number = 1,
+		language: string = DEFAULT_LANGUAGE,
 	): Promise<TMDBPaginatedResponse<TMDBMovie | TMDBTVShow>> {
 		try {
 			const endpoint = `/search/${mediaType}`;
-			const response = await this.client.get<
-				TMDBPaginatedResponse<TMDBMovie | TMDBTVShow>
-			>(endpoint, {
-				params: {
-					query,
-					page,
-				},
-			});
 
-			return response.data;
+			return await this.withEnglishFallback(language, async (lang) => {
+				const response = await this.client.get<
+					TMDBPaginatedResponse<TMDBMovie | TMDBTVShow>
+				>(endpoint, {
+					params: {
+						query,
+						page,
+						language: lang,
+					},
+				});
+
+				return response.data;
+			});
 		} catch (error) {
 			logger.error(error, `Error searching TMDB`);
 			throw new Error("Search failed");
 		}
 	}
 
+	/**
+	 * Search Movies or TV Shows by Title (Cached)
+	 *
+	 * Unlike search(), results are cached: imports look up the same titles
+	 * again and again (a dry run followed by the real import, or popular
+	 * films in everyone's diary). Only the first page is fetched, in
+	 * English, since that's all matching a title needs.
+	 */
+	async searchByTitle(
+		title: string,
+		mediaType: TMDBContentType,
+		year?: number,
+	): Promise<TMDBPaginatedResponse<TMDBMovie | TMDBTVShow>> {
+		// TMDB search ignores case, so "Alien" and "alien" share a cache entry
+		const query = title.trim().toLowerCase();
+		const endpoint = `/search/${mediaType}`;
+		const cacheKey = `search_${mediaType}_${year ?? "any"}_${query}`;
+		const yearParam =
+			mediaType === "movie" ? "primary_release_year" : "first_air_date_year";
+
+		return this.fetchWithCache(endpoint, cacheKey, 7 * 24 * 60 * 60 * 1000, {
+			query,
+			page: 1,
+			language: DEFAULT_LANGUAGE,
+			...(year !== undefined && { [yearParam]: year }),
+		});
+	}
+
+	/**
+	 * Search Movies, TV Shows and People at Once
+	 *
+	 * Uses TMDB's multi-search so a single search box can find anything.
+	 * Every result carries a media_type telling you what it is.
+	 * Like other searches, results are NOT cached.
+	 */
+	async multiSearch(
+		query: string,
+		page: number = 1,
+		includeAdult: boolean = false,
+		language: string = DEFAULT_LANGUAGE,
+	): Promise<TMDBPaginatedResponse<TMDBMultiSearchResult>> {
+		try {
+			return await this.withEnglishFallback(language, async (lang) => {
+				const response = await this.client.get<
+					TMDBPaginatedResponse<TMDBMultiSearchResult>
+				>("/search/multi", {
+					params: {
+						query,
+						page,
+						include_adult: includeAdult,
+						language: lang,
+					},
+				});
+
+				return response.data;
+			});
+		} catch (error) {
+			logger.error(error, `Error running multi-search on TMDB`);
+			throw new Error("Multi-search failed");
+		}
+	}
+
 	/**
 	 * Get All Genres
 	 *
 	 * Returns the complete list of genres (Action, Comedy, Drama, etc.)
 	 * You'll use this to build genre filters and display genre names.
 	 */
-	async getGenres(mediaType: TMDBContentType): Promise<TMDBGenre[]> {
+	async getGenres(
+		mediaType: TMDBContentType,
+		language: string = DEFAULT_LANGUAGE,
+	): Promise<TMDBGenre[]> {
 		const endpoint = `/genre/${mediaType}/list`;
 		const cacheKey = `genres_${mediaType}`;
 
 		// Genres almost never change, cache for 30 days
-		const response = await this.fetchWithCache<{ genres: TMDBGenre[] }>(
+		const response = await this.fetchLocalized<{ genres: TMDBGenre[] }>(
 			endpoint,
 			cacheKey,
 			30 * 24 * 60 * 60 * 1000,
+			language,
 		);
 
 		return response.genres;
@@ -338,31 +710,163 @@ class TMDBService {
 	 * This is TMDB's most powerful endpoint. You can filter by genre, year,
 	 * rating, language, and many other criteria. Perfect for building a
 	 * browse/filter page where users can find exactly what they want.
+	 *
+	 * Filters should be validated first (see schemas/discover.schema.ts);
+	 * their keys are TMDB's own query param names.
 	 */
 	async discover(
 		mediaType: TMDBContentType,
-		filters: {
-			with_genres?: string; // Comma-separated genre IDs
-			year?: number;
-			sort_by?: string; // e.g., 'popularity.desc', 'vote_average.desc'
-			page?: number;
-		} = {},
+		filters: Partial<DiscoverFilters> = {},
+		language: string = DEFAULT_LANGUAGE,
 	): Promise<TMDBPaginatedResponse<TMDBMovie | TMDBTVShow>> {
 		try {
 			const endpoint = `/discover/${mediaType}`;
-			const response = await this.client.get<
-				TMDBPaginatedResponse<TMDBMovie | TMDBTVShow>
-			>(endpoint, {
-				params: filters,
-			});
 
-			return response.data;
+			return await this.withEnglishFallback(language, async (lang) => {
+				const response = await this.client.get<
+					TMDBPaginatedResponse<TMDBMovie | TMDBTVShow>
+				>(endpoint, {
+					params: { ...filters, language: lang },
+				});
+
+				return response.data;
+			});
 		} catch (error) {
 			logger.error(error, `Error discovering content`);
 			throw new Error("Discover failed");
 		}
 	}
 
+	/**
+	 * Get Trending People
+	 *
+	 * The people everyone is talking about right now.
+	 * Great for a "Popular Actors" carousel.
+	 */
+	async getTrendingPeople(
+		timeWindow: TMDBTimeWindow = "week",
+		language: string = DEFAULT_LANGUAGE,
+	): Promise<TMDBPaginatedResponse<TMDBPerson>> {
+		const endpoint = `/trending/person/${timeWindow}`;
+		const cacheKey = `trending_person_${timeWindow}`;
+
+		return this.fetchLocalized(
+			endpoint,
+			cacheKey,
+			6 * 60 * 60 * 1000,
+			language,
+		);
+	}
+
+	/**
+	 * Get Popular People
+	 *
+	 * Consistently popular actors and filmmakers.
+	 */
+	async getPopularPeople(
+		page: number = 1,
+		language: string = DEFAULT_LANGUAGE,
+	): Promise<TMDBPaginatedResponse<TMDBPerson>> {
+		const endpoint = "/person/popular";
+		const cacheKey = `popular_person_page${page}`;
+
+		return this.fetchLocalized(
+			endpoint,
+			cacheKey,
+			12 * 60 * 60 * 1000,
+			language,
+			{
+				page,
+			},
+		);
+	}
+
+	/**
+	 * Get Person Details
+	 *
+	 * Biography, birthday, place of birth and other personal info.
+	 * This is what you need for an actor's profile page.
+	 */
+	async getPersonDetails(
+		personId: number,
+		language: string = DEFAULT_LANGUAGE,
+	): Promise<TMDBPersonDetails> {
+		const endpoint = `/person/${personId}`;
+		const cacheKey = `person_details_${personId}`;
+
+		return this.fetchLocalized(
+			endpoint,
+			cacheKey,
+			7 * 24 * 60 * 60 * 1000,
+			language,
+		);
+	}
+
+	/**
+	 * Get Person Combined Credits
+	 *
+	 * Everything a person has worked on, movies and TV shows together.
+	 * Each credit has a media_type so you know where to link it.
+	 */
+	async getPersonCombinedCredits(
+		personId: number,
+		language: string = DEFAULT_LANGUAGE,
+	): Promise<TMDBPersonCombinedCredits> {
+		const endpoint = `/person/${personId}/combined_credits`;
+		const cacheKey = `person_combined_credits_${personId}`;
+
+		// New roles get announced regularly, so refresh daily
+		return this.fetchLocalized(
+			endpoint,
+			cacheKey,
+			24 * 60 * 60 * 1000,
+			language,
+		);
+	}
+
+	/**
+	 * Get Person Images
+	 *
+	 * All profile pictures TMDB has for a person.
+	 */
+	async getPersonImages(personId: number): Promise<TMDBPersonImages> {
+		const endpoint = `/person/${personId}/images`;
+		const cacheKey = `person_images_${personId}`;
+
+		return this.fetchWithCache(endpoint, cacheKey, 7 * 24 * 60 * 60 * 1000);
+	}
+
+	/**
+	 * Search People
+	 *
+	 * Finds actors, directors and crew by name.
+	 * Like other searches, results are NOT cached.
+	 */
+	async searchPeople(
+		query: string,
+		page: number = 1,
+		language: string = DEFAULT_LANGUAGE,
+	): Promise<TMDBPaginatedResponse<TMDBPerson>> {
+		try {
+			return await this.withEnglishFallback(language, async (lang) => {
+				const response = await this.client.get<
+					TMDBPaginatedResponse<TMDBPerson>
+				>("/search/person", {
+					params: {
+						query,
+						page,
+						language: lang,
+					},
+				});
+
+				return response.data;
+			});
+		} catch (error) {
+			logger.error(error, `Error searching people on TMDB`);
+			throw new Error("People search failed");
+		}
+	}
+
 	/**
 	 * Build Image URL
 	 *
@@ -134,3 +134,31 @@ export const updateUser = async (
 		throw new Error("Failed to update user");
 	}
 };
+
+/**
+ * Create or update a user from data Clerk sent us
+ *
+ * Used by the Clerk webhook, so profile changes made in Clerk (new email,
+ * new avatar) show up here without the user having to call /sync.
+ */
+export const upsertUserFromClerk = async (data: {
+	clerkId: string;
+	email: string;
+	username: string;
+	imageUrl: string | null;
+}) => {
+	try {
+		const { clerkId, ...fields } = data;
+
+		return await prisma.user.upsert({
+			where: {
+				clerkId,
+			},
+			create: data,
+			update: fields,
+		});
+	} catch (error) {
+		logger.error(error, "Error upserting user from Clerk");
+		throw new Error("Failed to upsert user");
+	}
+};
@@ -0,0 +1,613 @@
+import prisma from "../config/prisma.js";
+import type { Prisma, Profile, Watchlist } from "../generated/prisma/client.js";
+import type { UpdateWatchlistItemInput } from "../schemas/watchlist.schema.js";
+import type { TMDBContentType } from "../types/tmdb.types.js";
+import logger from "../utils/logger.js";
+import { tmdbService } from "./tmdb.service.js";
+
+/**
+ * Watchlist Service
+ *
+ * Paging, sorting and filtering for the watchlist.
+ *
+ * Ratings, release dates and genres live on TMDB, so to sort and filter by
+ * them in the database they're copied onto each watchlist row when it's
+ * added. Rows added before that (or while TMDB was unreachable) are filled
+ * in a batch at a time in the background when the watchlist is read.
+ *
+ * Items also have a manual order, `position`, which runs 0, 1, 2... with
+ * no gaps. New items go to the end.
+ */
+
+export const WATCHLIST_SORTS = [
+	"added",
+	"title",
+	"rating",
+	"releaseDate",
+	"position",
+	"watchBy",
+] as const;
+
+export type WatchlistSort = (typeof WATCHLIST_SORTS)[number];
+
+export type SortOrder = "asc" | "desc";
+
+// How many rows missing TMDB details are filled in per request
+const METADATA_SYNC_BATCH_SIZE = 20;
+
+// How long to wait before looking a row up again after TMDB failed on it
+const METADATA_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+type SortField =
+	| "addedAt"
+	| "title"
+	| "voteAverage"
+	| "releaseDate"
+	| "position"
+	| "watchBy";
+
+const SORT_FIELDS: Record<
+	WatchlistSort,
+	{ field: SortField; nullable: boolean; defaultOrder: SortOrder }
+> = {
+	added: { field: "addedAt", nullable: false, defaultOrder: "desc" },
+	title: { field: "title", nullable: false, defaultOrder: "asc" },
+	rating: { field: "voteAverage", nullable: true, defaultOrder: "desc" },
+	releaseDate: { field: "releaseDate", nullable: true, defaultOrder: "desc" },
+	position: { field: "position", nullable: false, defaultOrder: "asc" },
+	watchBy: { field: "watchBy", nullable: true, defaultOrder: "asc" },
+};
+
+export type TitleMetadata = Pick<
+	Watchlist,
+	"voteAverage" | "releaseDate" | "genreIds" | "metadataSyncedAt"
+>;
+
+export type WatchlistEntry = Watchlist & { watched: boolean };
+
+/**
+ * Where a page of the watchlist starts: the sort value and ID of the last
+ * row on the previous page
+ */
+export interface WatchlistCursor {
+	value: string | number | Date | null;
+	id: string;
+}
+
+export interface WatchlistQuery {
+	sort: WatchlistSort;
+	order?: SortOrder | undefined;
+	limit: number;
+	cursor?: WatchlistCursor | undefined;
+	contentType?: TMDBContentType | undefined;
+	// Titles must have at least one of these genres
+	genreIds?: number[] | undefined;
+	tag?: string | undefined;
+	watched?: boolean | undefined;
+}
+
+export interface WatchlistTotals {
+	all: number;
+	movie: number;
+	tv: number;
+	watched: number;
+	unwatched: number;
+}
+
+export interface WatchlistPage {
+	items: WatchlistEntry[];
+	nextCursor: string | null;
+	// Rows matching the filters, across all pages
+	total: number;
+	totals: WatchlistTotals;
+}
+
+const parseReleaseDate = (value: string | undefined): Date | null => {
+	if (!value) return null;
+
+	const date = new Date(value);
+	return Number.isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * Look up the TMDB details we keep on a watchlist row.
+ * Returns null if TMDB can't be reached; the row is retried later.
+ */
+export const fetchTitleMetadata = async (
+	tmdbId: number,
+	contentType: TMDBContentType,
+): Promise<TitleMetadata | null> => {
+	try {
+		const details =
+			contentType === "movie"
+				? await tmdbService.getMovieDetails(tmdbId)
+				: await tmdbService.getTVShowDetails(tmdbId);
+
+		return {
+			voteAverage: details.vote_average,
+			releaseDate: parseReleaseDate(
+				"release_date" in details
+					? details.release_date
+					: details.first_air_date,
+			),
+			genreIds: details.genres.map((genre) => genre.id),
+			metadataSyncedAt: new Date(),
+		};
+	} catch (error) {
+		logger.warn(error, `Could not fetch metadata for ${contentType} ${tmdbId}`);
+		return null;
+	}
+};
+
+/**
+ * Fill in TMDB details on a batch of a profile's rows that don't have them.
+ *
+ * Each row is marked as attempted before it's looked up, so a row TMDB
+ * can't return (e.g. a title it has removed) is only retried once
+ * METADATA_RETRY_DELAY_MS has passed, and overlapping reads don't look up
+ * the same rows twice.
+ */
+export const syncWatchlistMetadata = async (
+	profileId: string,
+	now: Date = new Date(),
+): Promise<void> => {
+	const rows = await prisma.watchlist.findMany({
+		where: {
+			profileId,
+			metadataSyncedAt: null,
+			OR: [
+				{ metadataAttemptedAt: null },
+				{
+					metadataAttemptedAt: {
+						lt: new Date(now.getTime() - METADATA_RETRY_DELAY_MS),
+					},
+				},
+			],
+		},
+		select: { id: true, tmdbId: true, contentType: true },
+		orderBy: { addedAt: "desc" },
+		take: METADATA_SYNC_BATCH_SIZE,
+	});
+
+	if (rows.length === 0) return;
+
+	await prisma.watchlist.updateMany({
+		where: { id: { in: rows.map((row) => row.id) } },
+		data: { metadataAttemptedAt: now },
+	});
+
+	await Promise.all(
+		rows.map(async (row) => {
+			const metadata = await fetchTitleMetadata(
+				row.tmdbId,
+				row.contentType as TMDBContentType,
+			);
+
+			if (metadata) {
+				await prisma.watchlist.update({
+					where: { id: row.id },
+					data: metadata,
+				});
+			}
+		}),
+	);
+};
+
+/**
+ * The titles a profile has finished, from its watch history.
+ * For shows, finishing any episode counts.
+ */
+const getWatchedTitles = async (
+	profileId: string,
+): Promise<Record<TMDBContentType, number[]>> => {
+	const watched = await prisma.watchHistory.findMany({
+		where: { profileId, completed: true },
+		select: { tmdbId: true, contentType: true },
+		distinct: ["tmdbId", "contentType"],
+	});
+
+	const titles: Record<TMDBContentType, number[]> = { movie: [], tv: [] };
+
+	for (const { tmdbId, contentType } of watched) {
+		if (contentType === "movie" || contentType === "tv") {
+			titles[contentType].push(tmdbId);
+		}
+	}
+
+	return titles;
+};
+
+const isWatchedWhere = (
+	watched: Record<TMDBContentType, number[]>,
+): Prisma.WatchlistWhereInput => ({
+	OR: [
+		{ contentType: "movie", tmdbId: { in: watched.movie } },
+		{ contentType: "tv", tmdbId: { in: watched.tv } },
+	],
+});
+
+/**
+ * Turn the last row of a page into the cursor for the next one
+ */
+const encodeCursor = (item: Watchlist, sort: WatchlistSort): string => {
+	const value = item[SORT_FIELDS[sort].field];
+
+	return Buffer.from(
+		JSON.stringify([
+			value instanceof Date ? value.toISOString() : value,
+			item.id,
+		]),
+	).toString("base64url");
+};
+
+/**
+ * Read a cursor from the query string.
+ * Returns null if it's malformed or was made for a different sort.
+ */
+export const decodeWatchlistCursor = (
+	cursor: string,
+	sort: WatchlistSort,
+): WatchlistCursor | null => {
+	try {
+		const decoded: unknown = JSON.parse(
+			Buffer.from(cursor, "base64url").toString("utf8"),
+		);
+
+		if (!Array.isArray(decoded) || decoded.length !== 2) return null;
+
+		const [value, id] = decoded as [unknown, unknown];
+		const { field, nullable } = SORT_FIELDS[sort];
+
+		if (typeof id !== "string") return null;
+		if (value === null) return nullable ? { value, id } : null;
+
+		switch (field) {
+			case "title":
+				return typeof value === "string" ? { value, id } : null;
+			case "voteAverage":
+			case "position":
+				return typeof value === "number" ? { value, id } : null;
+			default: {
+				const date = typeof value === "string" ? new Date(value) : null;
+				return date && !Number.isNaN(date.getTime())
+					? { value: date, id }
+					: null;
+			}
+		}
+	} catch {
+		return null;
+	}
+};
+
+/**
+ * Rows that come after the cursor in the given order.
+ * Rows without a value sort last in both directions.
+ */
+const afterCursor = (
+	sort: WatchlistSort,
+	order: SortOrder,
+	{ value, id }: WatchlistCursor,
+): Prisma.WatchlistWhereInput => {
+	const { field, nullable } = SORT_FIELDS[sort];
+	const after = order === "asc" ? "gt" : "lt";
+
+	if (value === null) {
+		return { [field]: null, id: { [after]: id } };
+	}
+
+	return {
+		OR: [
+			{ [field]: { [after]: value } },
+			{ [field]: value, id: { [after]: id } },
+			...(nullable ? [{ [field]: null }] : []),
+		],
+	};
+};
+
+/**
+ * Get one page of a profile's watchlist
+ */
+export const queryWatchlist = async (
+	profileId: string,
+	query: WatchlistQuery,
+): Promise<WatchlistPage> => {
+	const { field, nullable, defaultOrder } = SORT_FIELDS[query.sort];
+	const order = query.order ?? defaultOrder;
+
+	// Not awaited, so a slow TMDB doesn't hold up the page. Rows filled in
+	// now show their details from the next read on.
+	syncWatchlistMetadata(profileId).catch((error) => {
+		logger.error(error, `Could not sync watchlist metadata for ${profileId}`);
+	});
+
+	const watchedTitles = await getWatchedTitles(profileId);
+	const watchedWhere = isWatchedWhere(watchedTitles);
+	const watchedKeys = new Set(
+		Object.entries(watchedTitles).flatMap(([contentType, ids]) =>
+			ids.map((id) => `${contentType}:${id}`),
+		),
+	);
+
+	const where: Prisma.WatchlistWhereInput = {
+		profileId,
+		...(query.contentType && { contentType: query.contentType }),
+		...(query.genreIds && { genreIds: { hasSome: query.genreIds } }),
+		...(query.tag && { tags: { has: query.tag } }),
+		...(query.watched !== undefined &&
+			(query.watched ? watchedWhere : { NOT: watchedWhere })),
+	};
+
+	// Fetch one extra row so we know whether another page exists
+	const [rows, total, byType, watchedCount] = await Promise.all([
+		prisma.watchlist.findMany({
+			where: query.cursor
+				? { AND: [where, afterCursor(query.sort, order, query.cursor)] }
+				: where,
+			orderBy: [
+				nullable
+					? { [field]: { sort: order, nulls: "last" } }
+					: { [field]: order },
+				{ id: order },
+			],
+			take: query.limit + 1,
+		}),
+		prisma.watchlist.count({ where }),
+		prisma.watchlist.groupBy({
+			by: ["contentType"],
+			where: { profileId },
+			_count: { _all: true },
+		}),
+		prisma.watchlist.count({ where: { profileId, ...watchedWhere } }),
+	]);
+
+	const hasMore = rows.length > query.limit;
+	const page = hasMore ? rows.slice(0, query.limit) : rows;
+	const last = page[page.length - 1];
+
+	const countOf = (contentType: TMDBContentType) =>
+		byType.find((group) => group.contentType === contentType)?._count._all ?? 0;
+	const all = countOf("movie") + countOf("tv");
+
+	return {
+		items: page.map((item) => ({
+			...item,
+			watched: watchedKeys.has(`${item.contentType}:${item.tmdbId}`),
+		})),
+		nextCursor: hasMore && last ? encodeCursor(last, query.sort) : null,
+		total,
+		totals: {
+			all,
+			movie: countOf("movie"),
+			tv: countOf("tv"),
+			watched: watchedCount,
+			unwatched: all - watchedCount,
+		},
+	};
+};
+
+export type NewWatchlistItem = Pick<
+	Prisma.WatchlistUncheckedCreateInput,
+	"tmdbId" | "contentType" | "title" | "posterPath" | "note"
+> &
+	Partial<TitleMetadata>;
+
+/**
+ * Lock a profile's watchlist order until the transaction ends.
+ *
+ * Everything that hands out or shifts positions takes this first, so two
+ * requests can't give out the same position or shift rows under each
+ * other. It locks the profile row, since a watchlist can be empty.
+ */
+const lockWatchlistPositions = async (
+	tx: Prisma.TransactionClient,
+	profileId: string,
+): Promise<void> => {
+	await tx.$queryRaw`SELECT 1 FROM "Profile" WHERE "id" = ${profileId} FOR UPDATE`;
+};
+
+/**
+ * The position a new item at the end of a profile's watchlist gets.
+ * Call it inside the transaction that inserts the item: it locks the
+ * watchlist's order until that transaction ends.
+ */
+export const nextWatchlistPosition = async (
+	tx: Prisma.TransactionClient,
+	profileId: string,
+): Promise<number> => {
+	await lockWatchlistPositions(tx, profileId);
+
+	const { _max } = await tx.watchlist.aggregate({
+		where: { profileId },
+		_max: { position: true },
+	});
+
+	return (_max.position ?? -1) + 1;
+};
+
+/**
+ * Add titles to the end of a profile's watchlist, in the given order.
+ * Titles already on it (or repeated in `items`) are skipped.
+ * Returns how many were added.
+ */
+export const appendToWatchlist = async (
+	tx: Prisma.TransactionClient,
+	profile: Pick<Profile, "id" | "userId">,
+	items: NewWatchlistItem[],
+): Promise<number> => {
+	const existing = await tx.watchlist.findMany({
+		where: {
+			profileId: profile.id,
+			tmdbId: { in: items.map((item) => item.tmdbId) },
+		},
+		select: { tmdbId: true, contentType: true },
+	});
+
+	const seen = new Set(
+		existing.map((item) => `${item.contentType}:${item.tmdbId}`),
+	);
+	const added = items.filter((item) => {
+		const key = `${item.contentType}:${item.tmdbId}`;
+		if (seen.has(key)) return false;
+		seen.add(key);
+		return true;
+	});
+
+	const start = await nextWatchlistPosition(tx, profile.id);
+
+	await tx.watchlist.createMany({
+		data: added.map((item, index) => ({
+			...item,
+			userId: profile.userId,
+			profileId: profile.id,
+			position: start + index,
+		})),
+	});
+
+	return added.length;
+};
+
+/**
+ * Move an item to a new position, shifting the items in between.
+ * A position past the end moves it to the end.
+ *
+ * The item is read again once the order is locked, since another request
+ * may have moved it since it was loaded.
+ */
+const moveWatchlistItem = async (
+	tx: Prisma.TransactionClient,
+	loaded: Pick<Watchlist, "id" | "profileId">,
+	position: number,
+): Promise<void> => {
+	await lockWatchlistPositions(tx, loaded.profileId);
+
+	const item = await tx.watchlist.findUniqueOrThrow({
+		where: { id: loaded.id },
+		select: { id: true, profileId: true, position: true },
+	});
+	const count = await tx.watchlist.count({
+		where: { profileId: item.profileId },
+	});
+	const to = Math.min(position, count - 1);
+
+	if (to === item.position) return;
+
+	await tx.watchlist.updateMany({
+		where: {
+			profileId: item.profileId,
+			position:
+				to > item.position
+					? { gt: item.position, lte: to }
+					: { gte: to, lt: item.position },
+		},
+		data: { position: { increment: to > item.position ? -1 : 1 } },
+	});
+
+	await tx.watchlist.update({
+		where: { id: item.id },
+		data: { position: to },
+	});
+};
+
+/**
+ * Edit an item's note, tags and reminder, and move it, all in one
+ * transaction so a failure can't leave half the edit applied
+ */
+export const editWatchlistItem = async (
+	item: Pick<Watchlist, "id" | "profileId">,
+	changes: UpdateWatchlistItemInput,
+): Promise<Watchlist> => {
+	const { position, note, tags, watchBy } = changes;
+
+	return prisma.$transaction(async (tx) => {
+		if (position !== undefined) {
+			await moveWatchlistItem(tx, item, position);
+		}
+
+		return tx.watchlist.update({
+			where: { id: item.id },
+			data: {
+				...(note !== undefined && { note }),
+				...(tags !== undefined && { tags }),
+				...(watchBy !== undefined && { watchBy }),
+			},
+		});
+	});
+};
+
+/**
+ * Remove an item from a watchlist, closing the gap it leaves.
+ * Its position is read again once the order is locked, in case it moved.
+ */
+export const removeWatchlistItem = async (
+	item: Pick<Watchlist, "id" | "profileId">,
+): Promise<void> => {
+	await prisma.$transaction(async (tx) => {
+		await lockWatchlistPositions(tx, item.profileId);
+
+		const removed = await tx.watchlist.delete({ where: { id: item.id } });
+
+		await tx.watchlist.updateMany({
+			where: {
+				profileId: removed.profileId,
+				position: { gt: removed.position },
+			},
+			data: { position: { decrement: 1 } },
+		});
+	});
+};
+
+/**
+ * Renumber a profile's watchlist 0, 1, 2... after several items were
+ * removed at once, keeping their order.
+ * Done in one statement, so it costs the same however big the watchlist is.
+ */
+export const compactWatchlistPositions = async (
+	tx: Prisma.TransactionClient,
+	profileId: string,
+): Promise<void> => {
+	await lockWatchlistPositions(tx, profileId);
+
+	await tx.$executeRaw`
+		UPDATE "Watchlist" AS w
+		SET "position" = ordered."rowNumber" - 1
+		FROM (
+			SELECT "id", ROW_NUMBER() OVER (ORDER BY "position", "addedAt", "id") AS "rowNumber"
+			FROM "Watchlist"
+			WHERE "profileId" = ${profileId}
+		) AS ordered
+		WHERE w."id" = ordered."id" AND w."position" <> ordered."rowNumber" - 1
+	`;
+};
+
+/**
+ * Put some of a profile's watchlist items in a new order.
+ *
+ * The items swap around among the positions they already hold, so the
+ * rest of the watchlist stays where it is and a reorder never has to list
+ * every item. Returns false, changing nothing, if any of `itemIds` isn't
+ * on the watchlist.
+ */
+export const reorderWatchlist = async (
+	profileId: string,
+	itemIds: string[],
+): Promise<boolean> =>
+	prisma.$transaction(async (tx) => {
+		await lockWatchlistPositions(tx, profileId);
+
+		const items = await tx.watchlist.findMany({
+			where: { profileId, id: { in: itemIds } },
+			select: { position: true },
+			orderBy: { position: "asc" },
+		});
+
+		if (items.length !== itemIds.length) return false;
+
+		for (const [index, id] of itemIds.entries()) {
+			await tx.watchlist.update({
+				where: { id, profileId },
+				data: { position: items[index]?.position ?? index },
+			});
+		}
+
+		return true;
+	});
@@ -0,0 +1,193 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import prisma from "../config/prisma.js";
+import type {
+	ClerkDeletedObject,
+	ClerkUserData,
+	ClerkWebhookEvent,
+} from "../types/webhook.types.js";
+import logger from "../utils/logger.js";
+import { purgeAccount } from "./account.service.js";
+import { getUserByClerkId, upsertUserFromClerk } from "./user.service.js";
+
+/**
+ * Webhook Service
+ *
+ * Clerk tells us about account changes by calling our webhook endpoint.
+ * Deliveries go through Svix, which signs every request and retries
+ * failed ones, so this service does three things:
+ * 1. Verify the signature, so nobody else can create or delete our users
+ * 2. Remember which events we've handled, so a retry is only applied once
+ * 3. Mirror the change into our database
+ */
+
+// Reject deliveries signed more than 5 minutes ago (or in the future) to
+// stop old, captured requests being replayed
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+export interface SvixHeaders {
+	id: string | undefined;
+	timestamp: string | undefined;
+	signature: string | undefined;
+}
+
+export type WebhookResult = "processed" | "ignored" | "duplicate";
+
+/**
+ * Verify a Svix webhook signature
+ *
+ * Svix signs `${id}.${timestamp}.${body}` with HMAC-SHA256, using the
+ * base64 part of the "whsec_..." secret as the key. The signature header
+ * can hold several space-separated signatures ("v1,<base64> v1,<base64>")
+ * while a secret is being rotated; any one matching is enough.
+ */
+export const verifySvixSignature = (
+	payload: string,
+	headers: SvixHeaders,
+	secret: string,
+	now: Date = new Date(),
+): boolean => {
+	const { id, timestamp, signature } = headers;
+	if (!id || !timestamp || !signature) return false;
+
+	const sentAt = parseInt(timestamp, 10);
+	if (
+		Number.isNaN(sentAt) ||
+		Math.abs(now.getTime() / 1000 - sentAt) > SIGNATURE_TOLERANCE_SECONDS
+	) {
+		return false;
+	}
+
+	const key = Buffer.from(secret.replace(/^whsec_/, ""), "base64");
+	const expected = createHmac("sha256", key)
+		.update(`${id}.${timestamp}.${payload}`)
+		.digest();
+
+	return signature.split(" ").some((entry) => {
+		const [version, value] = entry.split(",");
+		if (version !== "v1" || !value) return false;
+
+		const received = Buffer.from(value, "base64");
+		return (
+			received.length === expected.length && timingSafeEqual(received, expected)
+		);
+	});
+};
+
+/**
+ * Record that we're handling an event.
+ * Returns false if it was already recorded, i.e. this is a retry.
+ */
+const claimWebhookEvent = async (
+	id: string,
+	source: string,
+	type: string,
+): Promise<boolean> => {
+	const { count } = await prisma.webhookEvent.createMany({
+		data: [{ id, source, type }],
+		skipDuplicates: true,
+	});
+
+	return count === 1;
+};
+
+/**
+ * Pick the fields we store out of a Clerk user payload.
+ * Mirrors what findOrCreateUser reads from the Clerk API.
+ */
+const toUserFields = (data: ClerkUserData) => {
+	const primaryEmail =
+		data.email_addresses.find(
+			(email) => email.id === data.primary_email_address_id,
+		) ?? data.email_addresses[0];
+
+	return {
+		clerkId: data.id,
+		email: primaryEmail?.email_address || "",
+		username: data.username || data.first_name || "User",
+		imageUrl: data.image_url || null,
+	};
+};
+
+/**
+ * Check whether Clerk has told us this user was deleted.
+ * Svix doesn't deliver events in order, so a user.updated sent before the
+ * user.deleted can still turn up after it.
+ */
+const isDeletedInClerk = async (clerkId: string): Promise<boolean> =>
+	(await prisma.deletedClerkUser.count({ where: { clerkId } })) > 0;
+
+/**
+ * Apply one Clerk event to our database.
+ * Returns false for event types we don't handle.
+ */
+const applyClerkEvent = async (event: ClerkWebhookEvent): Promise<boolean> => {
+	switch (event.type) {
+		case "user.created":
+		case "user.updated": {
+			const data = event.data as ClerkUserData;
+
+			// Upserting would bring a purged account back to life
+			if (await isDeletedInClerk(data.id)) {
+				logger.info(`Ignoring ${event.type} for deleted Clerk user ${data.id}`);
+				return true;
+			}
+
+			const user = await upsertUserFromClerk(toUserFields(data));
+			logger.info(`Synced user ${user.id} from Clerk (${event.type})`);
+			return true;
+		}
+		case "user.deleted": {
+			const { id } = event.data as ClerkDeletedObject;
+
+			// Remembered even if we never saw the user, in case its
+			// user.created is still on its way
+			if (id) {
+				await prisma.deletedClerkUser.upsert({
+					where: { clerkId: id },
+					create: { clerkId: id },
+					update: {},
+				});
+			}
+
+			// The user can't sign in to restore their account any more,
+			// so there's no grace period here
+			const user = id ? await getUserByClerkId(id) : null;
+
+			if (user) {
+				await purgeAccount(user, "clerk_user_deleted");
+			} else {
+				logger.info(`No local user to delete for Clerk ID: ${id}`);
+			}
+			return true;
+		}
+		default:
+			return false;
+	}
+};
+
+/**
+ * Handle a verified Clerk event exactly once
+ *
+ * If applying the event fails, its record is removed again so the
+ * next retry from Svix gets another go.
+ */
+export const processClerkEvent = async (
+	eventId: string,
+	event: ClerkWebhookEvent,
+): Promise<WebhookResult> => {
+	if (!(await claimWebhookEvent(eventId, "clerk", event.type))) {
+		logger.info(`Skipping already processed Clerk event: ${eventId}`);
+		return "duplicate";
+	}
+
+	try {
+		return (await applyClerkEvent(event)) ? "processed" : "ignored";
+	} catch (error) {
+		await prisma.webhookEvent
+			.delete({ where: { id: eventId } })
+			.catch((releaseError) => {
+				logger.error(releaseError, `Failed to release event ${eventId}`);
+			});
+		throw error;
+	}
+};
@@ -1,4 +1,6 @@
 import "express";
+import type { Profile } from "../generated/prisma/client.js";
+import type { Settings } from "../services/settings.service.js";
 
 /**
  * This middleware extends the Express Request type to include auth information
@@ -11,6 +13,10 @@ declare global {
 				userId: string;
 				sessionId: string;
 			};
+			// The viewing profile picked by the profile middleware
+			profile?: Profile;
+			// The signed-in user's settings, attached by optionalSettings
+			settings?: Settings;
 		}
 	}
 }
\ No newline at end of file
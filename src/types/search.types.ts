@@ -0,0 +1,57 @@
+/**
+ * Search Type Definitions
+ *
+ * TMDB's multi-search returns movies, TV shows and people with different
+ * field names (title vs name, release_date vs first_air_date, etc.).
+ * We normalize them into one shape so the client can render a single
+ * result list without caring where each item came from.
+ */
+
+/**
+ * Fields every search result has, no matter its media type
+ */
+interface SearchResultBase {
+	id: number;
+	title: string;
+	year: number | null;
+	imageUrl: string | null;
+	popularity: number;
+}
+
+export interface MovieSearchResult extends SearchResultBase {
+	mediaType: "movie";
+	overview: string;
+	releaseDate: string | null;
+	voteAverage: number;
+	adult: boolean;
+}
+
+export interface TVSearchResult extends SearchResultBase {
+	mediaType: "tv";
+	overview: string;
+	firstAirDate: string | null;
+	voteAverage: number;
+}
+
+export interface PersonSearchResult extends SearchResultBase {
+	mediaType: "person";
+	knownForDepartment: string;
+	knownFor: string[]; // Titles the person is best known for
+	adult: boolean;
+}
+
+/**
+ * A normalized search result - check mediaType to narrow it down
+ */
+export type SearchResult =
+	| MovieSearchResult
+	| TVSearchResult
+	| PersonSearchResult;
+
+/**
+ * A lightweight result for search-as-you-type dropdowns
+ */
+export type SearchSuggestion = Pick<
+	SearchResult,
+	"mediaType" | "id" | "title" | "year" | "imageUrl"
+>;
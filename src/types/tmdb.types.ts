@@ -122,6 +122,68 @@ export interface TMDBTVShowDetails extends TMDBTVShow {
 	}>;
 }
 
+/**
+ * Episode type - a single episode as listed inside a season
+ */
+export interface TMDBEpisode {
+	id: number;
+	name: string;
+	overview: string;
+	air_date: string | null;
+	episode_number: number;
+	season_number: number;
+	show_id: number;
+	runtime: number | null;
+	still_path: string | null;
+	vote_average: number;
+	vote_count: number;
+	production_code: string;
+}
+
+/**
+ * Season Details type - a season with its full episode list
+ */
+export interface TMDBSeasonDetails {
+	id: number;
+	_id: string;
+	name: string;
+	overview: string;
+	air_date: string | null;
+	poster_path: string | null;
+	season_number: number;
+	vote_average: number;
+	episodes: Array<
+		TMDBEpisode & {
+			crew: TMDBCrewMember[];
+			guest_stars: TMDBCastMember[];
+		}
+	>;
+}
+
+/**
+ * Image type - stills, posters, backdrops and profile pictures
+ */
+export interface TMDBImage {
+	file_path: string;
+	aspect_ratio: number;
+	width: number;
+	height: number;
+	iso_639_1: string | null;
+	vote_average: number;
+	vote_count: number;
+}
+
+/**
+ * Episode Details type - a single episode with guest stars and stills
+ */
+export interface TMDBEpisodeDetails extends TMDBEpisode {
+	crew: TMDBCrewMember[];
+	guest_stars: TMDBCastMember[];
+	images: {
+		stills: TMDBImage[];
+	};
+}
+
 /**
  * Genre type - categories like Action, Comedy, Drama
  */
@@ -176,6 +238,171 @@ export interface TMDBVideo {
 	published_at: string;
 }
 
+/**
+ * Person type - an actor, director or other crew member
+ * This is what you get when fetching people lists or search results
+ */
+export interface TMDBPerson {
+	id: number;
+	name: string;
+	original_name?: string;
+	adult: boolean;
+	gender: number; // 0 = not set, 1 = female, 2 = male, 3 = non-binary
+	known_for_department: string;
+	popularity: number;
+	profile_path: string | null;
+	known_for?: TMDBSearchResult[];
+}
+
+/**
+ * Detailed Person type - includes biography and other personal info
+ */
+export interface TMDBPersonDetails extends Omit<TMDBPerson, "known_for"> {
+	also_known_as: string[];
+	biography: string;
+	birthday: string | null;
+	deathday: string | null;
+	homepage: string | null;
+	imdb_id: string | null;
+	place_of_birth: string | null;
+}
+
+/**
+ * A single credit in a person's filmography
+ * Movies use title/release_date, TV shows use name/first_air_date
+ */
+interface TMDBPersonCreditBase {
+	id: number;
+	media_type: TMDBContentType;
+	title?: string;
+	name?: string;
+	original_title?: string;
+	original_name?: string;
+	overview: string;
+	release_date?: string;
+	first_air_date?: string;
+	poster_path: string | null;
+	backdrop_path: string | null;
+	genre_ids: number[];
+	popularity: number;
+	vote_average: number;
+	vote_count: number;
+	credit_id: string;
+	episode_count?: number; // TV only
+}
+
+export interface TMDBPersonCastCredit extends TMDBPersonCreditBase {
+	character: string;
+	order?: number;
+}
+
+export interface TMDBPersonCrewCredit extends TMDBPersonCreditBase {
+	job: string;
+	department: string;
+}
+
+/**
+ * Combined Credits type - a person's movie and TV work together
+ */
+export interface TMDBPersonCombinedCredits {
+	id: number;
+	cast: TMDBPersonCastCredit[];
+	crew: TMDBPersonCrewCredit[];
+}
+
+/**
+ * Person Images type - profile pictures of a person
+ */
+export interface TMDBPersonImages {
+	id: number;
+	profiles: TMDBImage[];
+}
+
+/**
+ * Movie Release Dates type - release dates and age certifications
+ * per country. A movie can have several releases in one country
+ * (premiere, theatrical, digital...) each with its own certification.
+ */
+export interface TMDBMovieReleaseDates {
+	id: number;
+	results: Array<{
+		iso_3166_1: string;
+		release_dates: Array<{
+			certification: string; // e.g. "PG-13", empty when unrated
+			descriptors: string[];
+			iso_639_1: string;
+			note: string;
+			release_date: string;
+			type: number; // 1 Premiere, 2 Limited, 3 Theatrical, 4 Digital, 5 Physical, 6 TV
+		}>;
+	}>;
+}
+
+/**
+ * TV Content Ratings type - age ratings per country
+ */
+export interface TMDBTVContentRatings {
+	id: number;
+	results: Array<{
+		iso_3166_1: string;
+		rating: string; // e.g. "TV-MA"
+		descriptors: string[];
+	}>;
+}
+
+/**
+ * Watch Provider type - a streaming service, store or rental platform
+ */
+export interface TMDBWatchProvider {
+	provider_id: number;
+	provider_name: string;
+	logo_path: string | null;
+	display_priority: number;
+}
+
+/**
+ * Where a title can be watched in one region, grouped by how you pay
+ */
+export interface TMDBWatchProviderRegion {
+	link: string; // TMDB page linking out to each provider
+	flatrate?: TMDBWatchProvider[]; // Included with a subscription
+	free?: TMDBWatchProvider[];
+	ads?: TMDBWatchProvider[];
+	rent?: TMDBWatchProvider[];
+	buy?: TMDBWatchProvider[];
+}
+
+/**
+ * Watch Providers type - availability for a title in every region,
+ * keyed by ISO 3166-1 country code (e.g. "US", "GB")
+ */
+export interface TMDBWatchProviders {
+	id: number;
+	results: Record<string, TMDBWatchProviderRegion>;
+}
+
+/**
+ * Provider catalog entry - includes display priority per region
+ */
+export interface TMDBWatchProviderCatalogEntry extends TMDBWatchProvider {
+	display_priorities: Record<string, number>;
+}
+
+/**
+ * Find by external ID - titles matching an IMDb, TVDB... ID
+ * Episodes point back to their show with show_id
+ */
+export interface TMDBFindResponse {
+	movie_results: TMDBMovie[];
+	tv_results: TMDBTVShow[];
+	tv_episode_results: Array<{
+		id: number;
+		show_id: number;
+		season_number: number;
+		episode_number: number;
+	}>;
+}
+
 /**
  * Paginated response type - TMDB returns lists in pages
  * Think of this like a book with multiple pages of results
@@ -195,6 +422,15 @@ export type TMDBSearchResult = (TMDBMovie | TMDBTVShow) & {
 	media_type: "movie" | "tv";
 };
 
+/**
+ * Multi-search result - a movie, TV show or person
+ * TMDB's /search/multi endpoint tags every result with its media_type
+ */
+export type TMDBMultiSearchResult =
+	| (TMDBMovie & { media_type: "movie" })
+	| (TMDBTVShow & { media_type: "tv" })
+	| (TMDBPerson & { media_type: "person" });
+
 /**
  * Time window for trending content
  * TMDB allows you to get trending content for day or week
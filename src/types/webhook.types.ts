@@ -0,0 +1,38 @@
+/**
+ * Clerk Webhook Types
+ *
+ * The parts of Clerk's webhook payloads we use. Clerk sends many more
+ * fields; see https://clerk.com/docs/webhooks/overview
+ */
+
+export interface ClerkEmailAddress {
+	id: string;
+	email_address: string;
+}
+
+export interface ClerkUserData {
+	id: string;
+	email_addresses: ClerkEmailAddress[];
+	primary_email_address_id: string | null;
+	username: string | null;
+	first_name: string | null;
+	last_name: string | null;
+	image_url: string | null;
+}
+
+export interface ClerkDeletedObject {
+	id?: string; // Missing when the user was deleted before it was fully created
+	object: "user";
+	deleted: true;
+}
+
+/**
+ * Every Clerk event has this envelope; `data` depends on `type`
+ * (ClerkUserData for user.created/user.updated, ClerkDeletedObject for user.deleted)
+ */
+export interface ClerkWebhookEvent<T = unknown> {
+	type: string;
+	data: T;
+	object: "event";
+	timestamp: number;
+}
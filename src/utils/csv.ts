@@ -0,0 +1,104 @@
+/**
+ * CSV Helpers
+ *
+ * Minimal RFC 4180 CSV reading and writing: fields containing commas,
+ * quotes or line breaks are wrapped in double quotes, with inner quotes
+ * doubled.
+ */
+
+const escapeCsvField = (value: unknown): string => {
+	if (value === null || value === undefined) return "";
+
+	const text =
+		value instanceof Date
+			? value.toISOString()
+			: typeof value === "object"
+				? JSON.stringify(value)
+				: String(value);
+
+	return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Turn a list of rows into CSV text with a header line.
+ * Columns are taken from the first row; an empty list gives an empty string.
+ */
+export const toCsv = (rows: readonly Record<string, unknown>[]): string => {
+	const first = rows[0];
+	if (!first) return "";
+
+	const columns = Object.keys(first);
+	const lines = [
+		columns.map(escapeCsvField).join(","),
+		...rows.map((row) =>
+			columns.map((column) => escapeCsvField(row[column])).join(","),
+		),
+	];
+
+	return `${lines.join("\r\n")}\r\n`;
+};
+
+/**
+ * Split CSV text into rows of fields.
+ * Accepts \n or \r\n line endings and skips blank lines.
+ */
+const parseCsvRows = (text: string): string[][] => {
+	const rows: string[][] = [];
+	let row: string[] = [];
+	let field = "";
+	let quoted = false;
+
+	const endRow = () => {
+		row.push(field);
+		if (row.length > 1 || row[0] !== "") rows.push(row);
+		row = [];
+		field = "";
+	};
+
+	for (let i = 0; i < text.length; i++) {
+		const char = text[i];
+
+		if (quoted) {
+			if (char !== '"') {
+				field += char;
+			} else if (text[i + 1] === '"') {
+				// A doubled quote is a literal one
+				field += '"';
+				i++;
+			} else {
+				quoted = false;
+			}
+		} else if (char === '"') {
+			quoted = true;
+		} else if (char === ",") {
+			row.push(field);
+			field = "";
+		} else if (char === "\n") {
+			endRow();
+		} else if (char !== "\r") {
+			field += char;
+		}
+	}
+
+	if (field !== "" || row.length > 0) endRow();
+
+	return rows;
+};
+
+/**
+ * Read CSV text with a header line into one object per row, keyed by the
+ * header names. A leading byte order mark is ignored, and missing fields
+ * come back as empty strings.
+ */
+export const parseCsv = (text: string): Record<string, string>[] => {
+	const [header, ...rows] = parseCsvRows(text.replace(/^\uFEFF/, ""));
+	if (!header) return [];
+
+	const columns = header.map((column) => column.trim());
+
+	return rows.map((fields) =>
+		Object.fromEntries(
+			columns.map((column, index) => [column, fields[index] ?? ""]),
+		),
+	);
+};
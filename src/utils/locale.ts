@@ -0,0 +1,137 @@
+import type { Request } from "express";
+
+/**
+ * Locale Helpers
+ *
+ * Work out which country a request is coming from so region-specific
+ * TMDB data (like where to stream a title) matches the user, and which
+ * language titles and overviews should be returned in.
+ */
+
+export const DEFAULT_REGION = "US";
+
+// TMDB's own default, and what we fall back to when a translation is missing
+export const DEFAULT_LANGUAGE = "en-US";
+
+/**
+ * Normalize a region code like "gb" to "GB".
+ * Returns null if it isn't a two-letter ISO 3166-1 code.
+ */
+export const parseRegion = (value: unknown): string | null => {
+	if (typeof value !== "string") return null;
+
+	const region = value.trim().toUpperCase();
+	return /^[A-Z]{2}$/.test(region) ? region : null;
+};
+
+/**
+ * Normalize a language tag into the form TMDB expects:
+ * "fr" → "fr", "pt-br" → "pt-BR".
+ * Returns null for anything that isn't an ISO 639-1 code with an
+ * optional ISO 3166-1 region.
+ */
+export const parseLanguage = (value: unknown): string | null => {
+	if (typeof value !== "string") return null;
+
+	const match = value.trim().match(/^([a-z]{2})(?:[-_]([a-z]{2}))?$/i);
+	if (!match?.[1]) return null;
+
+	const language = match[1].toLowerCase();
+	return match[2] ? `${language}-${match[2].toUpperCase()}` : language;
+};
+
+/**
+ * Check whether a language tag is some form of English
+ */
+export const isEnglish = (language: string): boolean =>
+	language === "en" || language.startsWith("en-");
+
+/**
+ * Split an Accept-Language header into its tags, most preferred first (by q value)
+ */
+const parseAcceptLanguage = (header: string): string[] =>
+	header
+		.split(",")
+		.map((part) => {
+			const [tag = "", ...params] = part.trim().split(";");
+			const q = params.find((p) => p.trim().startsWith("q="));
+			return { tag, q: q ? parseFloat(q.trim().slice(2)) || 0 : 1 };
+		})
+		.sort((a, b) => b.q - a.q)
+		.map(({ tag }) => tag);
+
+/**
+ * Pick a language out of an Accept-Language header
+ *
+ * "fr-CA,fr;q=0.9,en;q=0.8" → "fr-CA"
+ * Tags TMDB can't use (like "*" or "zh-Hant-TW") are skipped.
+ */
+export const languageFromAcceptLanguage = (
+	header: string | undefined,
+): string | null => {
+	if (!header) return null;
+
+	for (const tag of parseAcceptLanguage(header)) {
+		const language = parseLanguage(tag);
+		if (language) return language;
+	}
+
+	return null;
+};
+
+/**
+ * Pick a region out of an Accept-Language header
+ *
+ * "en-GB,en;q=0.9,fr-FR;q=0.8" → "GB"
+ * Languages are tried in order of preference (q value); the first one
+ * with a country part wins. Returns null if none has one.
+ */
+export const regionFromAcceptLanguage = (
+	header: string | undefined,
+): string | null => {
+	if (!header) return null;
+
+	for (const tag of parseAcceptLanguage(header)) {
+		// The region is the two-letter subtag, e.g. "GB" in "en-GB" or "zh-Hant-TW"
+		const region = tag
+			.split("-")
+			.slice(1)
+			.find((subtag) => /^[A-Za-z]{2}$/.test(subtag));
+
+		if (region) return region.toUpperCase();
+	}
+
+	return null;
+};
+
+/**
+ * Resolve the region for a request
+ *
+ * Order of preference:
+ * 1. An explicit `region` query param
+ * 2. The region in the user's settings (see optionalSettings)
+ * 3. The Accept-Language header
+ * 4. DEFAULT_REGION
+ */
+export const resolveRegion = (req: Request): string =>
+	parseRegion(req.query.region) ??
+	req.settings?.region ??
+	regionFromAcceptLanguage(req.headers["accept-language"]) ??
+	DEFAULT_REGION;
+
+/**
+ * Resolve the language TMDB content should be returned in
+ *
+ * Order of preference:
+ * 1. An explicit `language` query param (e.g. "fr" or "pt-BR")
+ * 2. The language in the user's settings (see optionalSettings)
+ * 3. The Accept-Language header
+ * 4. DEFAULT_LANGUAGE
+ *
+ * Values that aren't valid language tags are skipped.
+ */
+export const resolveLanguage = (req: Request): string =>
+	parseLanguage(req.query.language) ??
+	req.settings?.language ??
+	languageFromAcceptLanguage(req.headers["accept-language"]) ??
+	DEFAULT_LANGUAGE;
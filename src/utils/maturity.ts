@@ -0,0 +1,68 @@
+import type { Request } from "express";
+import {
+	isMaturityLevel,
+	type MaturityFilter,
+} from "../services/certification.service.js";
+import {
+	type ContentRestrictions,
+	getContentRestrictions,
+	type MixedContentRestrictions,
+} from "../services/restriction.service.js";
+import type { TMDBContentType } from "../types/tmdb.types.js";
+import { DEFAULT_REGION, resolveRegion } from "./locale.js";
+
+/**
+ * Maturity Helpers
+ *
+ * Read the maturity filter a client asked for out of the query string:
+ * ?maxMaturity=13+&region=GB&includeUnrated=true
+ *
+ * Note that "+" has to be sent URL-encoded as %2B.
+ */
+
+/**
+ * Build the maturity filter for a request, or null when none was requested.
+ * Run validateMaturityFilter on the route first so bad values are rejected.
+ */
+export const resolveMaturityFilter = (req: Request): MaturityFilter | null => {
+	const { maxMaturity, includeUnrated } = req.query;
+
+	if (!isMaturityLevel(maxMaturity)) return null;
+
+	return {
+		maxMaturity,
+		region: resolveRegion(req),
+		includeUnrated: includeUnrated === "true",
+	};
+};
+
+/**
+ * Combine the requested maturity filter with the active profile's limits
+ * and the genres the user has hidden in their settings.
+ * Run optionalProfile (or resolveProfile) and optionalSettings on the route first.
+ *
+ * A profile's limit is checked in the region from the user's settings,
+ * ignoring the `region` query param and Accept-Language header.
+ */
+export const resolveContentRestrictions = (
+	req: Request,
+	mediaType: TMDBContentType,
+): ContentRestrictions | null =>
+	getContentRestrictions(
+		mediaType,
+		req.profile,
+		resolveMaturityFilter(req),
+		req.settings?.region ?? DEFAULT_REGION,
+		req.settings?.hiddenGenreIds,
+	);
+
+/**
+ * resolveContentRestrictions for both movies and TV, for routes that
+ * return a mix of them (search, shared lists)
+ */
+export const resolveMixedContentRestrictions = (
+	req: Request,
+): MixedContentRestrictions => ({
+	movie: resolveContentRestrictions(req, "movie"),
+	tv: resolveContentRestrictions(req, "tv"),
+});
@@ -0,0 +1,95 @@
+/**
+ * Translation Helpers
+ *
+ * When TMDB has no translation for a text field it usually returns an empty
+ * string (overviews, taglines, biographies). These helpers spot those gaps
+ * and fill them from the English version of the same response.
+ */
+
+// Text fields TMDB translates
+const TRANSLATED_FIELDS = [
+	"title",
+	"name",
+	"overview",
+	"tagline",
+	"biography",
+] as const;
+
+// Lists inside a response whose items have translated fields of their own
+const TRANSLATED_LISTS = [
+	"results",
+	"seasons",
+	"episodes",
+	"genres",
+	"cast",
+	"crew",
+] as const;
+
+type Translatable = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Translatable =>
+	typeof value === "object" && value !== null && !Array.isArray(value);
+
+const hasEmptyField = (item: Translatable): boolean =>
+	TRANSLATED_FIELDS.some((field) => item[field] === "");
+
+/**
+ * Check whether a response (or any item in its lists) is missing a translation
+ */
+export const hasMissingTranslations = (response: unknown): boolean => {
+	if (!isObject(response)) return false;
+	if (hasEmptyField(response)) return true;
+
+	return TRANSLATED_LISTS.some((list) => {
+		const items = response[list];
+		return (
+			Array.isArray(items) &&
+			items.some((item) => isObject(item) && hasEmptyField(item))
+		);
+	});
+};
+
+/**
+ * Copy English text into the fields the translation left empty
+ */
+const fillFields = (
+	localized: Translatable,
+	english: Translatable,
+): Translatable => {
+	const filled = { ...localized };
+
+	for (const field of TRANSLATED_FIELDS) {
+		if (filled[field] === "" && typeof english[field] === "string") {
+			filled[field] = english[field];
+		}
+	}
+
+	return filled;
+};
+
+/**
+ * Fill missing translations in a response from its English version.
+ * List items are matched up by id, since both versions list the same things.
+ */
+export const fillMissingTranslations = <T>(localized: T, english: T): T => {
+	if (!isObject(localized) || !isObject(english)) return localized;
+
+	const filled = fillFields(localized, english);
+
+	for (const list of TRANSLATED_LISTS) {
+		const items = filled[list];
+		const englishItems = english[list];
+		if (!Array.isArray(items) || !Array.isArray(englishItems)) continue;
+
+		const englishById = new Map(
+			englishItems.filter(isObject).map((item) => [item.id, item]),
+		);
+
+		filled[list] = items.map((item) => {
+			const match = isObject(item) ? englishById.get(item.id) : undefined;
+			return match && isObject(item) ? fillFields(item, match) : item;
+		});
+	}
+
+	return filled as T;
+};
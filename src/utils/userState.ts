@@ -0,0 +1,91 @@
+import type { Request } from "express";
+import {
+	getTitleStatuses,
+	type TitleProgress,
+} from "../services/status.service.js";
+import type {
+	TMDBContentType,
+	TMDBPaginatedResponse,
+} from "../types/tmdb.types.js";
+
+/**
+ * User State Helpers
+ *
+ * List routes can tell a signed-in client what it has already done with
+ * each title on the page, so it doesn't have to ask /api/status separately:
+ * ?withUserState=true
+ *
+ * Run optionalProfile on the route first. Guests get the same fields with
+ * empty values, so the response has one shape either way.
+ */
+
+export interface UserState {
+	inWatchlist: boolean;
+	isFavorite: boolean;
+	// Always null for now: there's no way to rate titles yet
+	userRating: number | null;
+	progress: TitleProgress | null;
+}
+
+const EMPTY_USER_STATE: UserState = {
+	inWatchlist: false,
+	isFavorite: false,
+	userRating: null,
+	progress: null,
+};
+
+/**
+ * Check whether the client asked for user state.
+ * Run validateUserState on the route first so bad values are rejected.
+ */
+export const wantsUserState = (req: Request): boolean =>
+	req.query.withUserState === "true";
+
+/**
+ * Add the active profile's state to every title on a page of results.
+ *
+ * `mediaType` is either the type of every item, or a function picking it
+ * per item for mixed lists like search. Items it returns null for (people)
+ * are left as they are. All titles are looked up in one query.
+ */
+export const attachUserState = async <T extends { id: number }>(
+	req: Request,
+	response: TMDBPaginatedResponse<T>,
+	mediaType: TMDBContentType | ((item: T) => TMDBContentType | null),
+): Promise<TMDBPaginatedResponse<T | (T & UserState)>> => {
+	if (!wantsUserState(req)) return response;
+
+	const typeOf = typeof mediaType === "function" ? mediaType : () => mediaType;
+	const titles = response.results.flatMap((item) => {
+		const contentType = typeOf(item);
+		return contentType ? [{ tmdbId: item.id, contentType }] : [];
+	});
+
+	const statuses = req.profile
+		? await getTitleStatuses(req.profile.id, titles)
+		: [];
+	const stateByTitle = new Map(
+		statuses.map((status) => [
+			`${status.contentType}:${status.tmdbId}`,
+			{
+				inWatchlist: status.inWatchlist,
+				isFavorite: status.isFavorite,
+				userRating: null,
+				progress: status.progress,
+			},
+		]),
+	);
+
+	return {
+		...response,
+		results: response.results.map((item) => {
+			const contentType = typeOf(item);
+			if (!contentType) return item;
+
+			return {
+				...item,
+				...(stateByTitle.get(`${contentType}:${item.id}`) ?? EMPTY_USER_STATE),
+			};
+		}),
+	};
+};